@@ -10,25 +10,30 @@ import LogsPanel from './components/LogsPanel';
 import GrblSettingsPanel from './components/GrblSettingsPanel';
 import SimulatorPanel from './components/SimulatorPanel';
 import CalibrationHelper from './components/CalibrationHelper';
+import ToolLibraryPanel from './components/ToolLibraryPanel';
+import RestoreSessionDialog from './components/RestoreSessionDialog';
+import BitmapTraceDialog from './components/BitmapTraceDialog';
 import Ripple from './components/Ripple';
-import { Shape, ShapeType, MachineSettings, Tool, Unit, RectangleShape, CircleShape, TextShape, HeartShape, LineShape, PolylineShape, GroupShape, MirrorMode, MachineStatus } from './types';
-import { generateGCode, loadFont } from './services/gcodeService';
+import { Shape, ShapeType, Tool, Unit, RectangleShape, CircleShape, TextShape, HeartShape, LineShape, PolylineShape, GroupShape, MirrorMode, MachineStatus, ToolLibrary, ProjectData, ProjectSnapshot } from './types';
+import { generateGCode, loadFont, DEFAULT_SETTINGS } from './services/gcodeService';
+import { flattenBezier } from './services/toolpathService';
+import { loadToolLibrary, saveToolLibrary } from './services/toolLibraryService';
+import { serializeProject, parseProjectFile, mergeProjectTools, PROJECT_EXTENSION } from './services/projectFileService';
+import { autosaveProject, listSnapshots } from './services/projectStorageService';
 // import { explainGCode } from './services/geminiService';
-import { parseSvgToShapes, shapesToSvg, calculateGCodeBounds } from './utils';
-import { Layers, FileCode, Settings, Terminal, Cpu, Play, GripVertical } from 'lucide-react';
+import { shapesToSvg, shapesToDxf, calculateGCodeBounds } from './utils';
+import { parseSvgToShapes } from './services/svgImportService';
+import { parseDxfToShapes } from './services/dxfImportService';
+import { loadBitmap, Bitmap } from './services/bitmapTraceService';
+import { Layers, FileCode, Settings, Terminal, Cpu, Play, GripVertical, Wrench } from 'lucide-react';
 import { serialService } from './services/serialService';
 
-const DEFAULT_SETTINGS: MachineSettings = {
-  feedRate: 800,
-  safeHeight: 5,
-  cutDepth: 2,
-  toolDiameter: 3.175
-};
-
 const MIN_PANEL_WIDTH = 300;
 const MAX_PANEL_WIDTH = 800;
+// Quiet time after the last change before the project is autosaved
+const AUTOSAVE_DELAY_MS = 1500;
 
-type Tab = 'properties' | 'machine' | 'logs' | 'grbl' | 'simulator';
+type Tab = 'properties' | 'machine' | 'logs' | 'grbl' | 'simulator' | 'tools';
 
 const App: React.FC = () => {
   const [shapes, setShapes] = useState<Shape[]>([]);
@@ -52,6 +57,7 @@ const App: React.FC = () => {
   const [gridSize, setGridSize] = useState(10);
   const [isRightPanelOpen, setIsRightPanelOpen] = useState(false);
   const [showCalibration, setShowCalibration] = useState(false);
+  const [traceSource, setTraceSource] = useState<{ image: Bitmap, url: string, name: string } | null>(null);
   const [generateOnlySelected, setGenerateOnlySelected] = useState(false);
   const [jogSpeed, setJogSpeed] = useState(1000);
 
@@ -66,6 +72,7 @@ const App: React.FC = () => {
   const [machineLogs, setMachineLogs] = useState<string[]>([]);
   const [isLogEnabled, setIsLogEnabled] = useState(true);
   const [grblSettings, setGrblSettings] = useState<Record<string, string>>({});
+  const [toolLibrary, setToolLibrary] = useState<ToolLibrary>(loadToolLibrary);
 
   // Right Panel State
   const [activeTab, setActiveTab] = useState<Tab>('properties');
@@ -190,12 +197,63 @@ const App: React.FC = () => {
         shapesToProcess = shapes.filter(s => selectedIds.includes(s.id));
       }
 
-      generateGCode(shapesToProcess, DEFAULT_SETTINGS).then(code => {
+      generateGCode(shapesToProcess, DEFAULT_SETTINGS, toolLibrary).then(code => {
         if (isMounted) setGcode(code);
       });
     }
     return () => { isMounted = false; };
-  }, [shapes, isManualMode, generateOnlySelected, selectedIds]);
+  }, [shapes, isManualMode, generateOnlySelected, selectedIds, toolLibrary]);
+
+  useEffect(() => {
+    saveToolLibrary(toolLibrary);
+  }, [toolLibrary]);
+
+  // --- Autosave ---
+  // Nothing is saved until the restore prompt is answered, so a blank start
+  // cannot overwrite the session the user may still want back.
+  const [restoreSnapshots, setRestoreSnapshots] = useState<ProjectSnapshot[] | null>(null);
+  const [isAutosaveReady, setIsAutosaveReady] = useState(false);
+
+  useEffect(() => {
+    listSnapshots()
+      .then(snapshots => {
+        const saved = snapshots.filter(s => s.project.shapes.length > 0 || s.project.isManualMode);
+        if (saved.length > 0) {
+          setRestoreSnapshots(saved);
+        } else {
+          setIsAutosaveReady(true);
+        }
+      })
+      .catch(err => console.warn('Autosave unavailable:', err));
+  }, []);
+
+  useEffect(() => {
+    if (!isAutosaveReady) return;
+    const timer = setTimeout(() => {
+      autosaveProject({ shapes, gcode, isManualMode, canvasSize, gridSize, unit })
+        .catch(err => console.warn('Autosave failed:', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isAutosaveReady, shapes, gcode, isManualMode, canvasSize, gridSize, unit]);
+
+  const applyProject = (project: ProjectData) => {
+    setShapes(project.shapes);
+    setGcode(project.gcode);
+    setIsManualMode(project.isManualMode);
+    setCanvasSize(project.canvasSize);
+    setGridSize(project.gridSize);
+    setUnit(project.unit);
+    setSelectedIds([]);
+    setHistoryPast([]);
+    setHistoryFuture([]);
+    setGcodeHistoryPast([]);
+    setGcodeHistoryFuture([]);
+  };
+
+  const closeRestoreDialog = () => {
+    setRestoreSnapshots(null);
+    setIsAutosaveReady(true);
+  };
 
   // Resize Handler
   const startResizing = useCallback((e: React.PointerEvent) => {
@@ -330,9 +388,18 @@ const App: React.FC = () => {
     const remainingShapes = shapes.filter(s => s.id !== group.id);
 
     const children = g.children.map(c => {
+      // Children keep the group's machining parameters unless they had their own
+      const machining = {
+        operation: c.operation || g.operation,
+        profile: c.profile || g.profile,
+        pocketStrategy: c.pocketStrategy || g.pocketStrategy,
+        tabs: c.tabs || g.tabs,
+        entry: c.entry || g.entry,
+      };
       if (c.type === ShapeType.LINE) {
         return {
           ...c,
+          ...machining,
           x: c.x + g.x,
           y: c.y + g.y,
           ...(c.type === ShapeType.LINE ? { x2: (c as any).x2 + g.x, y2: (c as any).y2 + g.y } : {})
@@ -340,6 +407,7 @@ const App: React.FC = () => {
       }
       return {
         ...c,
+        ...machining,
         x: c.x + g.x,
         y: c.y + g.y
       };
@@ -461,24 +529,14 @@ const App: React.FC = () => {
                     newShapes.push(line); newSelectedIds.push(line.id);
                     lastX = startX; lastY = startY;
                   } else if (cmd.type === 'Q' || cmd.type === 'C') {
-                    const steps = 5;
-                    for (let i = 1; i <= steps; i++) {
-                      const t = i / steps;
-                      let px, py;
-                      if (cmd.type === 'Q') {
-                        px = (1 - t) * (1 - t) * lastX + 2 * (1 - t) * t * cmd.x1 + t * t * cmd.x;
-                        py = (1 - t) * (1 - t) * lastY + 2 * (1 - t) * t * cmd.y1 + t * t * cmd.y;
-                      } else {
-                        // @ts-ignore
-                        px = Math.pow(1 - t, 3) * lastX + 3 * Math.pow(1 - t, 2) * t * cmd.x1 + 3 * (1 - t) * Math.pow(t, 2) * cmd.x2 + Math.pow(t, 3) * cmd.x;
-                        // @ts-ignore
-                        py = Math.pow(1 - t, 3) * lastY + 3 * Math.pow(1 - t, 2) * t * cmd.y1 + 3 * (1 - t) * Math.pow(t, 2) * cmd.y2 + Math.pow(t, 3) * cmd.y;
-                      }
-                      const line: Shape = { id: uuidv4(), type: ShapeType.LINE, x: cmx(lastX), y: lastY, x2: cmx(px), y2: py };
+                    const controls = cmd.type === 'Q'
+                      ? [{ x: lastX, y: lastY }, { x: cmd.x1, y: cmd.y1 }, { x: cmd.x, y: cmd.y }]
+                      : [{ x: lastX, y: lastY }, { x: cmd.x1, y: cmd.y1 }, { x: cmd.x2, y: cmd.y2 }, { x: cmd.x, y: cmd.y }];
+                    for (const p of flattenBezier(controls)) {
+                      const line: Shape = { id: uuidv4(), type: ShapeType.LINE, x: cmx(lastX), y: lastY, x2: cmx(p.x), y2: p.y };
                       newShapes.push(line); newSelectedIds.push(line.id);
-                      lastX = px; lastY = py;
+                      lastX = p.x; lastY = p.y;
                     }
-                    lastX = cmd.x; lastY = cmd.y;
                   }
                 }
                 const advance = font.getAdvanceWidth(char, textShape.fontSize);
@@ -498,24 +556,14 @@ const App: React.FC = () => {
                   newShapes.push(line); newSelectedIds.push(line.id);
                   lastX = startX; lastY = startY;
                 } else if (cmd.type === 'Q' || cmd.type === 'C') {
-                  const steps = 5;
-                  for (let i = 1; i <= steps; i++) {
-                    const t = i / steps;
-                    let px, py;
-                    if (cmd.type === 'Q') {
-                      px = (1 - t) * (1 - t) * lastX + 2 * (1 - t) * t * cmd.x1 + t * t * cmd.x;
-                      py = (1 - t) * (1 - t) * lastY + 2 * (1 - t) * t * cmd.y1 + t * t * cmd.y;
-                    } else {
-                      // @ts-ignore
-                      px = Math.pow(1 - t, 3) * lastX + 3 * Math.pow(1 - t, 2) * t * cmd.x1 + 3 * (1 - t) * Math.pow(t, 2) * cmd.x2 + Math.pow(t, 3) * cmd.x;
-                      // @ts-ignore
-                      py = Math.pow(1 - t, 3) * lastY + 3 * Math.pow(1 - t, 2) * t * cmd.y1 + 3 * (1 - t) * Math.pow(t, 2) * cmd.y2 + Math.pow(t, 3) * cmd.y;
-                    }
-                    const line: Shape = { id: uuidv4(), type: ShapeType.LINE, x: mx(lastX), y: lastY, x2: mx(px), y2: py };
+                  const controls = cmd.type === 'Q'
+                    ? [{ x: lastX, y: lastY }, { x: cmd.x1, y: cmd.y1 }, { x: cmd.x, y: cmd.y }]
+                    : [{ x: lastX, y: lastY }, { x: cmd.x1, y: cmd.y1 }, { x: cmd.x2, y: cmd.y2 }, { x: cmd.x, y: cmd.y }];
+                  for (const p of flattenBezier(controls)) {
+                    const line: Shape = { id: uuidv4(), type: ShapeType.LINE, x: mx(lastX), y: lastY, x2: mx(p.x), y2: p.y };
                     newShapes.push(line); newSelectedIds.push(line.id);
-                    lastX = px; lastY = py;
+                    lastX = p.x; lastY = p.y;
                   }
-                  lastX = cmd.x; lastY = cmd.y;
                 }
               }
             }
@@ -567,7 +615,18 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  const handleImportSVG = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleExportDXF = () => {
+    const dxfContent = shapesToDxf(shapes, canvasSize.height);
+    const blob = new Blob([dxfContent], { type: 'application/dxf' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'design.dxf';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportDrawing = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     saveToHistory();
@@ -575,7 +634,9 @@ const App: React.FC = () => {
     reader.onload = (evt) => {
       const content = evt.target?.result as string;
       if (content) {
-        const newShapes = parseSvgToShapes(content);
+        const newShapes = file.name.toLowerCase().endsWith('.dxf')
+          ? parseDxfToShapes(content, canvasSize.height)
+          : parseSvgToShapes(content);
         setShapes(prev => [...prev, ...newShapes]);
       }
     };
@@ -583,6 +644,56 @@ const App: React.FC = () => {
     e.target.value = '';
   };
 
+  const handleTraceImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const image = await loadBitmap(file);
+      setTraceSource({ image, url: URL.createObjectURL(file), name: file.name.replace(/\.[^.]+$/, '') });
+    } catch (err) {
+      alert(`Could not open the image: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  const closeTraceDialog = () => {
+    if (traceSource) URL.revokeObjectURL(traceSource.url);
+    setTraceSource(null);
+  };
+
+  const handleSaveProject = () => {
+    const content = serializeProject({ shapes, gcode, isManualMode, canvasSize, gridSize, unit }, toolLibrary);
+    const blob = new Blob([content], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `design${PROJECT_EXTENSION}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleOpenProject = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      try {
+        const { project, tools } = parseProjectFile(evt.target?.result as string);
+        // The project's tools join the library; a clash with a local tool keeps the project's cutter
+        const merged = mergeProjectTools(project, tools, toolLibrary);
+        setToolLibrary(merged.library);
+        applyProject(merged.project);
+        if (merged.remapped.length > 0) {
+          alert(`Some of this project's tools clash with the tool library (same id or T number), so the project now uses: ${merged.remapped.map(t => `T${t.number} ${t.name}`).join(', ')}.`);
+        }
+      } catch (err) {
+        alert(err instanceof Error ? err.message : String(err));
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
   const handleUpdateCanvasSize = (w: number, h: number) => {
     setCanvasSize({ width: w, height: h });
   };
@@ -600,7 +711,7 @@ const App: React.FC = () => {
     shapes.forEach(s => {
       if (s.type === ShapeType.GROUP) return;
       let sx = s.x, sy = s.y, ex = s.x, ey = s.y;
-      if (s.type === ShapeType.RECTANGLE) { ex += (s as any).width; ey += (s as any).height; }
+      if (s.type === ShapeType.RECTANGLE || s.type === ShapeType.IMAGE) { ex += (s as any).width; ey += (s as any).height; }
       minX = Math.min(minX, sx); maxX = Math.max(maxX, ex);
       minY = Math.min(minY, sy); maxY = Math.max(maxY, ey);
     });
@@ -659,7 +770,11 @@ const App: React.FC = () => {
             onUnitChange={setUnit}
             onClosePalette={() => { }}
             onExportSVG={handleExportSVG}
-            onImportSVG={handleImportSVG}
+            onExportDXF={handleExportDXF}
+            onImportDrawing={handleImportDrawing}
+            onTraceImage={handleTraceImage}
+            onSaveProject={handleSaveProject}
+            onOpenProject={handleOpenProject}
             onGroup={handleGroup}
             onUngroup={handleUngroup}
             onExplode={handleExplode}
@@ -693,6 +808,7 @@ const App: React.FC = () => {
             <div className="flex border-b border-slate-700 bg-slate-900 shrink-0 overflow-x-auto no-scrollbar">
               <TabButton id="properties" label="Design" icon={Layers} />
               <TabButton id="simulator" label="Sim" icon={Play} />
+              <TabButton id="tools" label="Tools" icon={Wrench} />
               <TabButton id="machine" label="Control" icon={Settings} />
               <TabButton id="grbl" label="GRBL" icon={Cpu} />
               <TabButton id="logs" label="Logs" icon={Terminal} />
@@ -720,6 +836,7 @@ const App: React.FC = () => {
                     gridSize={gridSize}
                     onUpdateGridSize={setGridSize}
                     onShapeChangeStart={saveToHistory}
+                    toolLibrary={toolLibrary}
                   />
                 </div>
               )}
@@ -737,6 +854,15 @@ const App: React.FC = () => {
                   onToggleGenerateOnlySelected={() => setGenerateOnlySelected(!generateOnlySelected)}
                   onUndo={undo}
                   onRedo={redo}
+                  grblSettings={grblSettings}
+                />
+              )}
+
+              {activeTab === 'tools' && (
+                <ToolLibraryPanel
+                  library={toolLibrary}
+                  onChange={setToolLibrary}
+                  onClose={() => setIsRightPanelOpen(false)}
                 />
               )}
 
@@ -777,6 +903,30 @@ const App: React.FC = () => {
       </main>
 
       {showCalibration && <CalibrationHelper onClose={() => setShowCalibration(false)} />}
+      {traceSource && (
+        <BitmapTraceDialog
+          image={traceSource.image}
+          imageUrl={traceSource.url}
+          name={traceSource.name}
+          onImport={(group) => {
+            saveToHistory();
+            setShapes(prev => [...prev, group]);
+            setSelectedIds([group.id]);
+            closeTraceDialog();
+          }}
+          onClose={closeTraceDialog}
+        />
+      )}
+      {restoreSnapshots && (
+        <RestoreSessionDialog
+          snapshots={restoreSnapshots}
+          onRestore={(snapshot) => {
+            applyProject(snapshot.project);
+            closeRestoreDialog();
+          }}
+          onDismiss={closeRestoreDialog}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { ImageIcon, X } from 'lucide-react';
+import { GroupShape, ImageShape } from '../types';
+import { Bitmap, TraceOptions, DEFAULT_TRACE_OPTIONS, traceBitmap, traceToGroup } from '../services/bitmapTraceService';
+import { bitmapToImageShape } from '../services/rasterService';
+import { DEFAULT_SETTINGS } from '../services/gcodeService';
+
+interface BitmapTraceDialogProps {
+  image: Bitmap;
+  imageUrl: string; // Shown under the traced outlines
+  name: string;
+  onImport: (shape: GroupShape | ImageShape) => void;
+  onClose: () => void;
+}
+
+const BitmapTraceDialog: React.FC<BitmapTraceDialogProps> = ({ image, imageUrl, name, onImport, onClose }) => {
+  const [options, setOptions] = useState<TraceOptions>(DEFAULT_TRACE_OPTIONS);
+  const loops = useMemo(() => traceBitmap(image, options), [image, options.threshold, options.invert, options.despeckle, options.smoothing]);
+  const pointCount = loops.reduce((sum, loop) => sum + loop.length, 0);
+  const previewPath = loops.map(loop => `M ${loop.map(p => `${p.x} ${p.y}`).join(' L ')} Z`).join(' ');
+
+  const setOption = <K extends keyof TraceOptions>(key: K, value: TraceOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  // The picture itself, engraved line by line in one laser pass
+  const placeRaster = () => {
+    const shape = bitmapToImageShape(image, options.width, { x: 0, y: 0 }, name);
+    onImport({
+      ...shape,
+      operation: {
+        name: 'Raster engrave',
+        laser: true,
+        settings: { ...DEFAULT_SETTINGS, feedRate: 3000, cutDepth: 1, stepDown: 1, toolDiameter: 0.1 }
+      }
+    });
+  };
+
+  const handleNumber = (key: 'threshold' | 'despeckle' | 'smoothing' | 'width', valStr: string) => {
+    const val = parseFloat(valStr);
+    if (!isNaN(val) && val >= 0) setOption(key, val);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60]">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden">
+        <div className="bg-slate-900 p-4 flex justify-between items-center border-b border-slate-700">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <ImageIcon size={18} className="text-sky-400" /> Trace Image
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="bg-white rounded border border-slate-700 overflow-hidden">
+            <svg viewBox={`0 0 ${image.width} ${image.height}`} className="w-full max-h-64" preserveAspectRatio="xMidYMid meet">
+              <image href={imageUrl} x={0} y={0} width={image.width} height={image.height} opacity={0.35} />
+              <path d={previewPath} fill="rgba(14, 165, 233, 0.25)" fillRule="evenodd" stroke="#0284c7" strokeWidth={Math.max(image.width, image.height) / 400} />
+            </svg>
+          </div>
+          <div className="text-xs text-slate-400">
+            {loops.length} outline{loops.length === 1 ? '' : 's'}, {pointCount} points
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-400 flex justify-between mb-1">
+              <span>Threshold</span><span className="font-mono">{options.threshold}</span>
+            </label>
+            <input type="range" min={1} max={254} value={options.threshold} onChange={e => handleNumber('threshold', e.target.value)} className="w-full accent-sky-500" />
+          </div>
+          <div>
+            <label className="text-xs text-slate-400 flex justify-between mb-1">
+              <span>Despeckle (px²)</span><span className="font-mono">{options.despeckle}</span>
+            </label>
+            <input type="range" min={0} max={500} value={options.despeckle} onChange={e => handleNumber('despeckle', e.target.value)} className="w-full accent-sky-500" />
+          </div>
+          <div>
+            <label className="text-xs text-slate-400 flex justify-between mb-1">
+              <span>Corner Smoothing</span><span className="font-mono">{options.smoothing.toFixed(2)}</span>
+            </label>
+            <input type="range" min={0} max={1} step={0.05} value={options.smoothing} onChange={e => handleNumber('smoothing', e.target.value)} className="w-full accent-sky-500" />
+          </div>
+          <div className="flex gap-4 items-end">
+            <div className="flex-1">
+              <label className="text-xs text-slate-400 block mb-1">Width (mm)</label>
+              <input type="number" min={1} className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white" value={options.width} onChange={e => handleNumber('width', e.target.value)} />
+            </div>
+            <div className="flex-1 text-xs text-slate-400 pb-2">
+              Height {(options.width * image.height / image.width).toFixed(1)} mm
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-300">
+            <input type="checkbox" checked={options.invert} onChange={e => setOption('invert', e.target.checked)} className="accent-sky-500" />
+            Trace light areas instead of dark
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => onImport(traceToGroup(loops, image.width, options, { x: 0, y: 0 }, name))}
+              disabled={loops.length === 0 || options.width <= 0}
+              className="flex-1 py-2 bg-sky-600 hover:bg-sky-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded text-sm font-medium"
+            >
+              Import
+            </button>
+            <button
+              onClick={placeRaster}
+              disabled={options.width <= 0}
+              title="Place the picture for laser raster engraving"
+              className="flex-1 py-2 bg-amber-600 hover:bg-amber-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded text-sm font-medium"
+            >
+              Engrave as Raster
+            </button>
+            <button onClick={onClose} className="flex-1 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-sm">
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BitmapTraceDialog;
@@ -1,9 +1,15 @@
 
 import React, { useRef, useState, useEffect, useMemo } from 'react';
-import { Shape, ShapeType, RectangleShape, CircleShape, TextShape, Tool, HeartShape, LineShape, PolylineShape, Unit, MirrorMode, GroupShape } from '../types';
+import { Shape, ShapeType, RectangleShape, CircleShape, TextShape, Tool, HeartShape, LineShape, PolylineShape, PathShape, Unit, MirrorMode, GroupShape, ProfileMode, ImageShape } from '../types';
 import { Trash2, MousePointer2, Hand, PenTool, Minus, Lasso, Hexagon, Scissors, Activity, ZoomIn } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import { formatUnit } from '../utils';
+import { formatUnit, replaceShape, flattenShapes } from '../utils';
+import { getToolpathPreviews, DEFAULT_SETTINGS, ToolpathPreview } from '../services/gcodeService';
+import { imageShapeUrl } from '../services/rasterService';
+import { contourToSvgPath, contourLength, lengthAtPoint, tabFractions, contourToPoints, translateContour } from '../services/toolpathService';
+
+// Outline of a path shape in canvas coordinates, coarse enough for hit testing
+const pathPoints = (s: PathShape) => s.contours.flatMap(c => contourToPoints(translateContour(c, s.x, s.y), 0.5));
 
 interface CanvasProps {
     shapes: Shape[];
@@ -103,6 +109,17 @@ const Canvas: React.FC<CanvasProps> = ({
     const [hoveredId, setHoveredId] = useState<string | null>(null);
     const [lassoPoints, setLassoPoints] = useState<{ x: number, y: number }[]>([]);
     const [cursorPos, setCursorPos] = useState<{ x: number, y: number } | null>(null);
+    const [toolpathPreviews, setToolpathPreviews] = useState<ToolpathPreview[]>([]);
+    const [tabDrag, setTabDrag] = useState<{ shapeId: string, contourIndex: number, tabIndex: number } | null>(null);
+
+    // Tool radius compensated outlines, pockets and holding tabs
+    useEffect(() => {
+        let cancelled = false;
+        getToolpathPreviews(shapes, DEFAULT_SETTINGS).then(previews => {
+            if (!cancelled) setToolpathPreviews(previews);
+        });
+        return () => { cancelled = true; };
+    }, [shapes]);
 
     const getSVGPoint = (event: React.PointerEvent | React.TouchEvent | React.WheelEvent | MouseEvent) => {
         const svg = svgRef.current;
@@ -120,6 +137,33 @@ const Canvas: React.FC<CanvasProps> = ({
         return pt.matrixTransform(ctm.inverse());
     };
 
+    // Dragging a tab marker slides the tab along its toolpath
+    useEffect(() => {
+        if (!tabDrag) return;
+        const preview = toolpathPreviews.find(p => p.shapeId === tabDrag.shapeId);
+        const contour = preview?.contours[tabDrag.contourIndex];
+        const shape = flattenShapes(shapes).find(s => s.id === tabDrag.shapeId);
+        if (!preview?.tabs || !contour || !shape) return;
+        const tabs = preview.tabs;
+
+        const onMove = (e: PointerEvent) => {
+            const length = contourLength(contour);
+            if (length <= 0) return;
+            const positions = [...tabFractions(tabs)];
+            positions[tabDrag.tabIndex] = lengthAtPoint(contour, getSVGPoint(e)) / length;
+            const next = replaceShape(shapes, { ...shape, tabs: { ...tabs, positions } } as Shape);
+            onUpdateShapes(next.filter((s, i) => s !== shapes[i]));
+        };
+        const onUp = () => setTabDrag(null);
+
+        window.addEventListener('pointermove', onMove);
+        window.addEventListener('pointerup', onUp);
+        return () => {
+            window.removeEventListener('pointermove', onMove);
+            window.removeEventListener('pointerup', onUp);
+        };
+    }, [tabDrag, toolpathPreviews, shapes]);
+
     // Refs for event listeners to access current state without re-binding
     const zoomRef = useRef(zoom);
     const panRef = useRef(pan);
@@ -228,8 +272,8 @@ const Canvas: React.FC<CanvasProps> = ({
             if (s.type === ShapeType.LINE) {
                 const l = s as LineShape;
                 check(l.x, l.y); check(l.x2, l.y2);
-            } else if (s.type === ShapeType.RECTANGLE) {
-                const r = s as RectangleShape;
+            } else if (s.type === ShapeType.RECTANGLE || s.type === ShapeType.IMAGE) {
+                const r = s as RectangleShape | ImageShape;
                 check(r.x, r.y); check(r.x + r.width, r.y); check(r.x, r.y + r.height); check(r.x + r.width, r.y + r.height);
             } else if (s.type === ShapeType.GROUP) {
                 (s as GroupShape).children.forEach(checkShape);
@@ -644,8 +688,8 @@ const Canvas: React.FC<CanvasProps> = ({
             // Check if any key point of the shape is inside the lasso
             let isInside = false;
 
-            if (shape.type === ShapeType.RECTANGLE) {
-                const s = shape as RectangleShape;
+            if (shape.type === ShapeType.RECTANGLE || shape.type === ShapeType.IMAGE) {
+                const s = shape as RectangleShape | ImageShape;
                 // Check corners
                 const corners = [
                     { x: s.x, y: s.y },
@@ -672,6 +716,8 @@ const Canvas: React.FC<CanvasProps> = ({
                 const s = shape as PolylineShape;
                 // For polyline, check each point. Note: Polyline points are relative to s.x, s.y
                 isInside = s.points.some(p => isPointInPolygon({ x: p.x + s.x, y: p.y + s.y }, points));
+            } else if (shape.type === ShapeType.PATH) {
+                isInside = pathPoints(shape as PathShape).some(p => isPointInPolygon(p, points));
             } else if (shape.type === ShapeType.GROUP) {
                 // For groups, check if any child is inside
                 const g = shape as GroupShape;
@@ -724,8 +770,8 @@ const Canvas: React.FC<CanvasProps> = ({
                 if (shape.type === ShapeType.LINE) {
                     const l = shape as LineShape;
                     if (intersects(p1, p2, { x: l.x, y: l.y }, { x: l.x2, y: l.y2 })) return true;
-                } else if (shape.type === ShapeType.RECTANGLE) {
-                    const r = shape as RectangleShape;
+                } else if (shape.type === ShapeType.RECTANGLE || shape.type === ShapeType.IMAGE) {
+                    const r = shape as RectangleShape | ImageShape;
                     // 4 lines
                     if (intersects(p1, p2, { x: r.x, y: r.y }, { x: r.x + r.width, y: r.y })) return true;
                     if (intersects(p1, p2, { x: r.x + r.width, y: r.y }, { x: r.x + r.width, y: r.y + r.height })) return true;
@@ -736,6 +782,14 @@ const Canvas: React.FC<CanvasProps> = ({
                     for (let j = 0; j < pl.points.length - 1; j++) {
                         if (intersects(p1, p2, { x: pl.points[j].x + pl.x, y: pl.points[j].y + pl.y }, { x: pl.points[j + 1].x + pl.x, y: pl.points[j + 1].y + pl.y })) return true;
                     }
+                } else if (shape.type === ShapeType.PATH) {
+                    const s = shape as PathShape;
+                    for (const contour of s.contours) {
+                        const pts = contourToPoints(translateContour(contour, s.x, s.y), 0.5);
+                        for (let j = 0; j < pts.length - 1; j++) {
+                            if (intersects(p1, p2, pts[j], pts[j + 1])) return true;
+                        }
+                    }
                 } else if (shape.type === ShapeType.CIRCLE) {
                     // Approx line vs circle
                     const c = shape as CircleShape;
@@ -769,8 +823,8 @@ const Canvas: React.FC<CanvasProps> = ({
 
         const checkShape = (shape: Shape) => {
             let shapeRect = { x: 0, y: 0, width: 0, height: 0 };
-            if (shape.type === ShapeType.RECTANGLE) {
-                const s = shape as RectangleShape;
+            if (shape.type === ShapeType.RECTANGLE || shape.type === ShapeType.IMAGE) {
+                const s = shape as RectangleShape | ImageShape;
                 shapeRect = { x: s.x, y: s.y, width: s.width, height: s.height };
             } else if (shape.type === ShapeType.CIRCLE) {
                 const s = shape as CircleShape;
@@ -789,6 +843,11 @@ const Canvas: React.FC<CanvasProps> = ({
                 const maxX = Math.max(s.x, s.x2);
                 const maxY = Math.max(s.y, s.y2);
                 shapeRect = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+            } else if (shape.type === ShapeType.PATH) {
+                const pts = pathPoints(shape as PathShape);
+                const xs = pts.map(p => p.x);
+                const ys = pts.map(p => p.y);
+                shapeRect = { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
             } else if (shape.type === ShapeType.GROUP) {
                 const g = shape as GroupShape;
                 g.children.forEach(checkShape);
@@ -898,8 +957,8 @@ const Canvas: React.FC<CanvasProps> = ({
             // Calculate bounding box for the group
             let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
             g.children.forEach(child => {
-                if (child.type === ShapeType.RECTANGLE) {
-                    const r = child as RectangleShape;
+                if (child.type === ShapeType.RECTANGLE || child.type === ShapeType.IMAGE) {
+                    const r = child as RectangleShape | ImageShape;
                     minX = Math.min(minX, child.x);
                     minY = Math.min(minY, child.y);
                     maxX = Math.max(maxX, child.x + r.width);
@@ -1012,6 +1071,15 @@ const Canvas: React.FC<CanvasProps> = ({
                 />
             );
         }
+        if (shape.type === ShapeType.IMAGE) {
+            const s = shape as ImageShape;
+            return (
+                <g key={s.id} {...commonProps}>
+                    <image href={imageShapeUrl(s)} x={s.x} y={s.y} width={s.width} height={s.height} preserveAspectRatio="none" opacity={0.85} />
+                    <rect x={s.x} y={s.y} width={s.width} height={s.height} fill="none" stroke={stroke} strokeWidth={sw / 2} strokeDasharray={`${4 / zoom} ${2 / zoom}`} />
+                </g>
+            );
+        }
         if (shape.type === ShapeType.CIRCLE) {
             const s = shape as CircleShape;
             return (
@@ -1096,6 +1164,22 @@ const Canvas: React.FC<CanvasProps> = ({
                 />
             );
         }
+        if (shape.type === ShapeType.PATH) {
+            const s = shape as PathShape;
+            const isClosed = s.contours.some(c => c.closed);
+            return (
+                <path
+                    key={s.id}
+                    d={s.contours.map(contourToSvgPath).join(' ')}
+                    transform={`translate(${s.x}, ${s.y})`}
+                    fill={isClosed ? (isSelected ? "rgba(56, 189, 248, 0.2)" : "rgba(56, 189, 248, 0.05)") : "none"}
+                    fillRule="evenodd"
+                    stroke={stroke}
+                    strokeWidth={sw}
+                    {...commonProps}
+                />
+            );
+        }
         if (shape.type === ShapeType.POLYLINE) {
             const s = shape as PolylineShape;
             const pointsStr = s.points.map(p => `${p.x},${p.y}`).join(' ');
@@ -1246,8 +1330,41 @@ const Canvas: React.FC<CanvasProps> = ({
                     <text x={5 / zoom} y={-5 / zoom} fill="#ef4444" fontSize={12 / zoom} fontWeight="bold">0,0</text>
                 </g>
 
+                {toolpathPreviews.filter(p => p.profile !== ProfileMode.ON).map(p => (
+                    <path
+                        key={`toolpath-${p.shapeId}`}
+                        d={p.contours.map(contourToSvgPath).join(' ')}
+                        fill="none"
+                        stroke="#38bdf8"
+                        strokeOpacity={0.5}
+                        strokeWidth={1 / zoom}
+                        strokeDasharray={`${4 / zoom} ${2 / zoom}`}
+                        pointerEvents="none"
+                    />
+                ))}
+
                 {shapes.map(s => renderShape(s))}
 
+                {toolpathPreviews.flatMap(p => p.tabMarkers.map(m => (
+                    <rect
+                        key={`tab-${p.shapeId}-${m.contourIndex}-${m.tabIndex}`}
+                        x={m.x - 4 / zoom}
+                        y={m.y - 4 / zoom}
+                        width={8 / zoom}
+                        height={8 / zoom}
+                        fill="#f59e0b"
+                        stroke="#0f172a"
+                        strokeWidth={1 / zoom}
+                        className="cursor-grab"
+                        onPointerDown={(e) => {
+                            if (activeTool !== Tool.SELECT) return;
+                            e.stopPropagation();
+                            onShapeChangeStart?.();
+                            setTabDrag({ shapeId: p.shapeId, contourIndex: m.contourIndex, tabIndex: m.tabIndex });
+                        }}
+                    />
+                )))}
+
                 {currentPolyline && renderShape(currentPolyline)}
                 {currentLine && renderShape(currentLine)}
 
@@ -0,0 +1,66 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { JobError } from '../types';
+
+interface JobErrorDialogProps {
+  error: JobError;
+  isPaused: boolean; // The job is held waiting for a decision; otherwise it was stopped
+  onSkip: () => void;
+  onRetry: () => void;
+  onAbort: () => void;
+  onClose: () => void;
+}
+
+const JobErrorDialog: React.FC<JobErrorDialogProps> = ({ error, isPaused, onSkip, onRetry, onAbort, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60]">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="bg-slate-900 p-4 flex justify-between items-center border-b border-slate-700">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <AlertTriangle size={18} className="text-red-400" /> {isPaused ? 'Job Paused' : 'Job Stopped'}{error.code ? `: error ${error.code}` : ''}
+          </h3>
+          {!isPaused && <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={18} /></button>}
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="bg-red-900/20 border border-red-900/50 p-4 rounded space-y-2">
+            <div className="text-xs text-slate-400">Line {error.lineIndex + 1}</div>
+            <div className="font-mono text-sm text-slate-200 break-all">{error.text}</div>
+            <div className="text-sm text-red-300">{error.message}</div>
+          </div>
+
+          {isPaused ? (
+            <>
+              <div className="flex gap-2">
+                <button onClick={onSkip} className="flex-1 py-2 bg-sky-600 hover:bg-sky-500 text-white rounded text-sm font-medium">
+                  Skip Line
+                </button>
+                <button
+                  onClick={onRetry}
+                  disabled={!error.canRetry}
+                  className="flex-1 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-slate-200 rounded text-sm"
+                >
+                  Retry
+                </button>
+                <button onClick={onAbort} className="flex-1 py-2 bg-red-600 hover:bg-red-500 text-white rounded text-sm font-medium">
+                  Abort
+                </button>
+              </div>
+              {!error.canRetry && (
+                <p className="text-xs text-slate-500">
+                  Later lines were already in GRBL's buffer when the error came back, so retrying would run this line out of order.
+                </p>
+              )}
+            </>
+          ) : (
+            <button onClick={onClose} className="w-full py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-sm">
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JobErrorDialog;
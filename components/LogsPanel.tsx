@@ -89,7 +89,7 @@ const LogsPanel: React.FC<LogsPanelProps> = ({ logs, onClose, onClear, isLogEnab
         )}
         {logs.length === 0 && <div className="text-slate-600 italic p-2">No logs yet...</div>}
         {logs.map((l, i) => (
-            <div key={i} className="break-all whitespace-pre-wrap border-b border-slate-800/30 pb-0.5">{l}</div>
+            <div key={i} className={`break-all whitespace-pre-wrap border-b border-slate-800/30 pb-0.5 ${l.startsWith('ERROR') || l.startsWith('ALARM') ? 'text-red-400' : ''}`}>{l}</div>
         ))}
         <div ref={logEndRef}></div>
       </div>
@@ -1,8 +1,11 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { serialService } from '../services/serialService';
+import { MockGrblPort } from '../services/mockGrblService';
+import ProbingPanel from './ProbingPanel';
+import { describeGrblAlarm, describeGrblError } from '../services/grblMessageService';
 import { MachineStatus } from '../types';
-import { Power, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Home, Crosshair, AlertCircle, Settings, Usb, Smartphone, ScanLine, X, Maximize2, Minimize2 } from 'lucide-react';
+import { Power, ArrowUp, ArrowDown, ArrowLeft, ArrowRight, Home, Crosshair, AlertCircle, Settings, Usb, Smartphone, ScanLine, X, Maximize2, Minimize2, Cpu, Gauge, Droplets, CloudDrizzle, CircleStop } from 'lucide-react';
 
 interface MachineControlProps {
   onClose: () => void;
@@ -29,6 +32,9 @@ const MachineControl: React.FC<MachineControlProps> = ({
   const [jogMode, setJogMode] = useState<'STEP' | 'CONTINUOUS'>('STEP');
   const [showMobileWidget, setShowMobileWidget] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [dismissedError, setDismissedError] = useState<MachineStatus['lastError']>();
+  // Slider positions while dragging, before the override is sent
+  const [pendingOverride, setPendingOverride] = useState<{ feed?: number, spindle?: number }>({});
   const wrapperRef = useRef<HTMLDivElement>(null);
   
   useEffect(() => {
@@ -75,6 +81,15 @@ const MachineControl: React.FC<MachineControlProps> = ({
       }
   };
 
+  const handleSimulate = async () => {
+      try {
+          await serialService.connect(115200, new MockGrblPort());
+          onAddLog('Connected to simulated GRBL machine.');
+      } catch (e: any) {
+          onAddLog(`Simulator failed to start: ${e.message || e}`);
+      }
+  };
+
   const handleDisconnect = async () => {
       await serialService.disconnect();
       onDisconnect();
@@ -132,11 +147,55 @@ const MachineControl: React.FC<MachineControlProps> = ({
       onAddLog("Command Sent: Zero All (G10 L20 P1). If coordinates don't reset, check $10 status report mask.");
   };
 
+  const overrides = machineStatus.overrides || { feed: 100, rapid: 100, spindle: 100 };
+
+  const commitOverride = (kind: 'feed' | 'spindle', percent: number) => {
+      setPendingOverride(prev => ({ ...prev, [kind]: undefined }));
+      serialService.setOverride(kind, percent);
+  };
+
+  const renderOverrideSlider = (kind: 'feed' | 'spindle', label: string) => {
+      const value = pendingOverride[kind] ?? overrides[kind];
+      const step = (delta: number) => commitOverride(kind, overrides[kind] + delta);
+      return (
+          <div>
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                  <span>{label}</span>
+                  <span className="font-mono text-slate-200">{value}%</span>
+              </div>
+              <input
+                 type="range"
+                 min="10"
+                 max="200"
+                 step="1"
+                 value={value}
+                 disabled={!isConnected}
+                 onChange={(e) => setPendingOverride(prev => ({ ...prev, [kind]: Number(e.target.value) }))}
+                 onPointerUp={(e) => commitOverride(kind, Number(e.currentTarget.value))}
+                 onKeyUp={(e) => commitOverride(kind, Number(e.currentTarget.value))}
+                 className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer disabled:opacity-50"
+              />
+              <div className="flex gap-1 mt-1">
+                  {[-10, -1].map(d => (
+                      <button key={d} onClick={() => step(d)} disabled={!isConnected} className="flex-1 py-1 text-[10px] bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-slate-300">{d}%</button>
+                  ))}
+                  <button onClick={() => commitOverride(kind, 100)} disabled={!isConnected} className="flex-1 py-1 text-[10px] bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-sky-400">100%</button>
+                  {[1, 10].map(d => (
+                      <button key={d} onClick={() => step(d)} disabled={!isConnected} className="flex-1 py-1 text-[10px] bg-slate-700 hover:bg-slate-600 disabled:opacity-50 rounded text-slate-300">+{d}%</button>
+                  ))}
+              </div>
+          </div>
+      );
+  };
+
   // Safe dimension display
   const hasBounds = gcodeTotalSize && 
     isFinite(gcodeTotalSize.maxX) && isFinite(gcodeTotalSize.minX) &&
     isFinite(gcodeTotalSize.maxY) && isFinite(gcodeTotalSize.minY);
 
+  const lastError = machineStatus.lastError !== dismissedError ? machineStatus.lastError : undefined;
+  const accessories = machineStatus.accessories;
+
   const width = hasBounds ? (gcodeTotalSize.maxX - gcodeTotalSize.minX).toFixed(2) : '0.00';
   const height = hasBounds ? (gcodeTotalSize.maxY - gcodeTotalSize.minY).toFixed(2) : '0.00';
 
@@ -164,12 +223,17 @@ const MachineControl: React.FC<MachineControlProps> = ({
             <div className="flex justify-between items-center mb-4">
                 <div className="flex items-center gap-2">
                     <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></div>
-                    <span className="font-mono text-sm">{machineStatus.state}</span>
+                    <span className="font-mono text-sm">{machineStatus.state}{machineStatus.subState !== undefined ? `:${machineStatus.subState}` : ''}</span>
                 </div>
                 {!isConnected ? (
-                    <button onClick={handleConnect} className="px-3 py-1 bg-sky-600 hover:bg-sky-500 text-white text-xs rounded-md font-medium flex items-center gap-1">
-                        <Usb size={12} /> Connect
-                    </button>
+                    <div className="flex gap-2">
+                        <button onClick={handleSimulate} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs rounded-md font-medium flex items-center gap-1" title="Connect to a simulated GRBL 1.1 machine">
+                            <Cpu size={12} /> Simulate
+                        </button>
+                        <button onClick={handleConnect} className="px-3 py-1 bg-sky-600 hover:bg-sky-500 text-white text-xs rounded-md font-medium flex items-center gap-1">
+                            <Usb size={12} /> Connect
+                        </button>
+                    </div>
                 ) : (
                     <button onClick={handleDisconnect} className="px-3 py-1 bg-red-900/50 hover:bg-red-900 text-red-200 text-xs rounded-md font-medium">
                         Disconnect
@@ -182,9 +246,65 @@ const MachineControl: React.FC<MachineControlProps> = ({
                     <div key={axis} className="bg-slate-900 p-2 rounded border border-slate-700">
                         <div className="text-xs text-slate-500">{axis}</div>
                         <div className="font-mono text-sky-400">{axis === 'X' ? machineStatus.pos.x : axis === 'Y' ? machineStatus.pos.y : machineStatus.pos.z}</div>
+                        {machineStatus.machinePos && (
+                            <div className="font-mono text-[10px] text-slate-500" title="Machine position">
+                                M {machineStatus.machinePos[axis.toLowerCase() as 'x' | 'y' | 'z']}
+                            </div>
+                        )}
                     </div>
                 ))}
             </div>
+
+            {machineStatus.state === 'Alarm' && (
+                <div className="mt-3 bg-red-900/20 border border-red-900/50 p-3 rounded text-xs space-y-2">
+                    <div className="flex items-center gap-1 font-semibold text-red-400">
+                        <AlertCircle size={14} /> {machineStatus.alarm !== undefined ? `ALARM:${machineStatus.alarm}` : 'Alarm'}
+                    </div>
+                    <p className="text-red-300">
+                        {machineStatus.alarm !== undefined ? describeGrblAlarm(machineStatus.alarm) : 'Machine is locked. Home the machine or unlock it to continue.'}
+                    </p>
+                    <div className="flex gap-2">
+                        <button onClick={() => serialService.send('$X')} className="flex-1 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-200">Unlock ($X)</button>
+                        <button onClick={() => serialService.send('$H')} className="flex-1 py-1 bg-slate-700 hover:bg-slate-600 rounded text-slate-200">Home ($H)</button>
+                    </div>
+                </div>
+            )}
+
+            {lastError && (
+                <div className="mt-3 bg-red-900/20 border border-red-900/50 p-3 rounded text-xs flex gap-2">
+                    <div className="flex-1 space-y-1">
+                        <div className="font-semibold text-red-400">error:{lastError.code}{lastError.command && <span className="font-mono font-normal text-slate-400"> {lastError.command}</span>}</div>
+                        <p className="text-red-300">{describeGrblError(lastError.code)}</p>
+                    </div>
+                    <button onClick={() => setDismissedError(machineStatus.lastError)} className="text-slate-400 hover:text-white self-start"><X size={14} /></button>
+                </div>
+            )}
+
+            {isConnected && (
+                <div className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-[10px] text-slate-400 font-mono">
+                    <div>Feed <span className="text-slate-200">{machineStatus.feed}</span></div>
+                    <div>Spindle <span className="text-slate-200">{machineStatus.spindle}</span></div>
+                    {machineStatus.overrides && (
+                        <div className="col-span-2">
+                            Ov F <span className="text-slate-200">{machineStatus.overrides.feed}%</span>
+                            {' '}R <span className="text-slate-200">{machineStatus.overrides.rapid}%</span>
+                            {' '}S <span className="text-slate-200">{machineStatus.overrides.spindle}%</span>
+                        </div>
+                    )}
+                    {machineStatus.buffer && (
+                        <div className="col-span-2">
+                            Buffer <span className="text-slate-200">{machineStatus.buffer.blocks}</span> blocks, <span className="text-slate-200">{machineStatus.buffer.bytes}</span> bytes free
+                        </div>
+                    )}
+                    {machineStatus.lineNumber !== undefined && <div>Line <span className="text-slate-200">{machineStatus.lineNumber}</span></div>}
+                    {machineStatus.pins && <div>Pins <span className="text-orange-400">{machineStatus.pins}</span></div>}
+                    {accessories && (accessories.spindle || accessories.flood || accessories.mist) && (
+                        <div className="col-span-2 text-slate-200">
+                            {[accessories.spindle && `Spindle ${accessories.spindle}`, accessories.flood && 'Flood', accessories.mist && 'Mist'].filter(Boolean).join(' · ')}
+                        </div>
+                    )}
+                </div>
+            )}
              <button onClick={handleZeroAll} className="w-full mt-2 text-xs py-2 bg-slate-700 rounded hover:bg-slate-600 flex items-center justify-center gap-1 text-yellow-500 border border-slate-600"><Crosshair size={14} /> Zero All Axes (G54)</button>
         </div>
 
@@ -243,6 +363,66 @@ const MachineControl: React.FC<MachineControlProps> = ({
                  <button onClick={() => serialService.send('$X')} className="text-xs py-2 bg-slate-700 rounded hover:bg-slate-600 flex items-center justify-center gap-1"><Power size={14} /> Unlock / Reset Alarm</button>
              </div>
         </div>
+
+        {/* Overrides */}
+        <div className="bg-slate-800 rounded-xl p-4 shadow-lg border border-slate-700 space-y-4">
+             <div className="flex justify-between items-center">
+                <h3 className="text-xs font-semibold text-slate-400 uppercase flex items-center gap-1"><Gauge size={14} /> Overrides</h3>
+                <span className="text-[10px] font-mono text-slate-500">
+                    F {overrides.feed}% · R {overrides.rapid}% · S {overrides.spindle}%
+                </span>
+             </div>
+
+             {renderOverrideSlider('feed', 'Feed')}
+
+             <div>
+                 <div className="flex justify-between text-xs text-slate-500 mb-1">
+                     <span>Rapids</span>
+                     <span className="font-mono text-slate-200">{overrides.rapid}%</span>
+                 </div>
+                 <div className="flex bg-slate-900 rounded-lg p-0.5 border border-slate-700">
+                     {[[25, 0x97], [50, 0x96], [100, 0x95]].map(([percent, byte]) => (
+                         <button
+                            key={percent}
+                            onClick={() => serialService.sendByte(byte)}
+                            disabled={!isConnected}
+                            className={`flex-1 py-1 text-[10px] rounded disabled:opacity-50 ${overrides.rapid === percent ? 'bg-sky-600 text-white' : 'text-slate-400'}`}
+                         >
+                             {percent}%
+                         </button>
+                     ))}
+                 </div>
+             </div>
+
+             {renderOverrideSlider('spindle', 'Spindle')}
+
+             <div className="grid grid-cols-3 gap-2">
+                 <button
+                    onClick={() => serialService.sendByte(0x9E)}
+                    disabled={!isConnected || machineStatus.state !== 'Hold'}
+                    title="Stops the spindle while the job is held; press again to restart it"
+                    className={`text-xs py-2 rounded flex items-center justify-center gap-1 border disabled:opacity-50 ${machineStatus.state === 'Hold' && !machineStatus.accessories?.spindle ? 'bg-orange-900/40 text-orange-400 border-orange-900' : 'bg-slate-700 hover:bg-slate-600 border-slate-600'}`}
+                 >
+                     <CircleStop size={14} /> Spindle
+                 </button>
+                 <button
+                    onClick={() => serialService.sendByte(0xA0)}
+                    disabled={!isConnected}
+                    className={`text-xs py-2 rounded flex items-center justify-center gap-1 border disabled:opacity-50 ${machineStatus.accessories?.flood ? 'bg-sky-900/40 text-sky-400 border-sky-900' : 'bg-slate-700 hover:bg-slate-600 border-slate-600'}`}
+                 >
+                     <Droplets size={14} /> Flood
+                 </button>
+                 <button
+                    onClick={() => serialService.sendByte(0xA1)}
+                    disabled={!isConnected}
+                    className={`text-xs py-2 rounded flex items-center justify-center gap-1 border disabled:opacity-50 ${machineStatus.accessories?.mist ? 'bg-sky-900/40 text-sky-400 border-sky-900' : 'bg-slate-700 hover:bg-slate-600 border-slate-600'}`}
+                 >
+                     <CloudDrizzle size={14} /> Mist
+                 </button>
+             </div>
+        </div>
+
+        <ProbingPanel machineStatus={machineStatus} isConnected={isConnected} onAddLog={onAddLog} />
       </div>
 
       {/* Mobile Widget Modal */}
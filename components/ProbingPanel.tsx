@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Target, ArrowDownToLine, CornerDownRight, Square } from 'lucide-react';
+import { serialService } from '../services/serialService';
+import { ProbeSettings, ProbeCorner, loadProbeSettings, saveProbeSettings, probeZ, probeCorner } from '../services/probeService';
+import { MachineStatus } from '../types';
+
+interface ProbingPanelProps {
+  machineStatus: MachineStatus;
+  isConnected: boolean;
+  onAddLog: (msg: string) => void;
+}
+
+const FIELDS: { key: keyof ProbeSettings, label: string }[] = [
+  { key: 'plateThickness', label: 'Plate (mm)' },
+  { key: 'retract', label: 'Retract (mm)' },
+  { key: 'maxTravel', label: 'Max Travel (mm)' },
+  { key: 'fastFeed', label: 'Fast Feed' },
+  { key: 'slowFeed', label: 'Slow Feed' },
+  { key: 'toolDiameter', label: 'Tool Ø (mm)' },
+  { key: 'clearance', label: 'Clearance (mm)' },
+  { key: 'depth', label: 'Depth (mm)' },
+];
+
+const CORNERS: ProbeCorner[] = ['X-Y-', 'X+Y-', 'X-Y+', 'X+Y+'];
+
+const ProbingPanel: React.FC<ProbingPanelProps> = ({ machineStatus, isConnected, onAddLog }) => {
+  const [settings, setSettings] = useState<ProbeSettings>(loadProbeSettings);
+  const [busy, setBusy] = useState<'Z' | 'XY' | null>(null);
+
+  const update = (patch: Partial<ProbeSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveProbeSettings(next);
+  };
+
+  const run = async (kind: 'Z' | 'XY') => {
+    if (!isConnected) {
+      onAddLog('Error: Connect to machine first.');
+      return;
+    }
+    if (machineStatus.state !== 'Idle') {
+      onAddLog(`Error: Probing needs the machine to be Idle (it is ${machineStatus.state}).`);
+      return;
+    }
+    if (kind === 'XY' && !machineStatus.machinePos) {
+      onAddLog('Error: Waiting for the machine position from a status report.');
+      return;
+    }
+    setBusy(kind);
+    try {
+      if (kind === 'Z') {
+        const touched = await probeZ(settings);
+        onAddLog(`Probe: Z touched at machine Z${touched.z.toFixed(3)}; work Z set to ${settings.plateThickness} there.`);
+      } else {
+        const corner = await probeCorner(settings, machineStatus.machinePos!);
+        onAddLog(`Probe: corner ${settings.corner} found at machine X${corner.x.toFixed(3)} Y${corner.y.toFixed(3)}; set as work X0 Y0.`);
+      }
+    } catch (e: any) {
+      onAddLog(`ERROR: Probing stopped: ${e.message || e}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleAbort = () => {
+    serialService.sendByte(0x18); // Soft reset stops the move at once
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4 shadow-lg border border-slate-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xs font-semibold text-slate-400 uppercase flex items-center gap-1"><Target size={14} /> Probing</h3>
+        {busy && (
+          <button onClick={handleAbort} className="text-[10px] px-2 py-0.5 rounded border bg-red-900/40 text-red-300 border-red-900 flex items-center gap-1">
+            <Square size={10} /> Abort
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {FIELDS.map(field => (
+          <label key={field.key} className="text-[10px] text-slate-500">
+            {field.label}
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={settings[field.key] as number}
+              disabled={!!busy}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (!isNaN(value) && value >= 0) update({ [field.key]: value });
+              }}
+              className="w-full mt-0.5 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 disabled:opacity-50"
+            />
+          </label>
+        ))}
+        <label className="text-[10px] text-slate-500">
+          Corner
+          <select
+            value={settings.corner}
+            disabled={!!busy}
+            onChange={(e) => update({ corner: e.target.value as ProbeCorner })}
+            className="w-full mt-0.5 bg-slate-900 border border-slate-700 rounded px-1 py-1 text-xs text-slate-200 disabled:opacity-50"
+          >
+            {CORNERS.map(c => <option key={c} value={c}>{`${c.slice(0, 2)} ${c.slice(2)}`.replace(/-/g, '−')}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => run('Z')}
+          disabled={!isConnected || !!busy}
+          title="Lower onto the touch plate, re-probe slowly and set work Z to the plate thickness"
+          className="text-xs py-2 bg-slate-700 rounded hover:bg-slate-600 disabled:opacity-50 flex items-center justify-center gap-1 text-sky-400 border border-slate-600"
+        >
+          <ArrowDownToLine size={14} /> {busy === 'Z' ? 'Probing…' : 'Probe Z'}
+        </button>
+        <button
+          onClick={() => run('XY')}
+          disabled={!isConnected || !!busy}
+          title="Touch both sides of the chosen corner and make it work X0 Y0"
+          className="text-xs py-2 bg-slate-700 rounded hover:bg-slate-600 disabled:opacity-50 flex items-center justify-center gap-1 text-sky-400 border border-slate-600"
+        >
+          <CornerDownRight size={14} /> {busy === 'XY' ? 'Probing…' : 'Find Corner'}
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500">
+        Probe Z: start above the touch plate. Find Corner: start just above the stock, within Clearance − Tool Ø/2 of both edges.
+      </p>
+    </div>
+  );
+};
+
+export default ProbingPanel;
@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Shape, ShapeType, RectangleShape, CircleShape, TextShape, HeartShape, LineShape, Unit, MirrorMode } from '../types';
-import { Layers, Trash2, X, Settings, Calculator, LayoutGrid, Type, Maximize2, Minimize2, Square, Circle, Heart, Spline, Minus, Group } from 'lucide-react';
+import { Shape, ShapeType, RectangleShape, CircleShape, TextShape, HeartShape, LineShape, Unit, MirrorMode, MachineSettings, ProfileMode, PocketStrategy, TabSettings, EntryMode, ToolLibrary, ToolType, ImageShape, RasterSettings } from '../types';
+import { Layers, Trash2, X, Settings, Calculator, LayoutGrid, Type, Maximize2, Minimize2, Square, Circle, Heart, Spline, PenTool, Minus, Group, Drill, ImageIcon, Zap } from 'lucide-react';
 import { fromMm, toMm } from '../utils';
-import { AVAILABLE_FONTS } from '../services/gcodeService';
+import { AVAILABLE_FONTS, DEFAULT_SETTINGS } from '../services/gcodeService';
+import { MATERIALS, findTool, applyTool } from '../services/toolLibraryService';
 
 interface PropertiesPanelProps {
   selectedShapes: Shape[];
@@ -22,6 +23,7 @@ interface PropertiesPanelProps {
   onSelectShape?: (id: string | null, isMulti: boolean) => void;
   onGroup?: () => void;
   onUngroup?: () => void;
+  toolLibrary?: ToolLibrary;
 }
 
 const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
@@ -40,7 +42,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   allShapes = [],
   onSelectShape,
   onGroup,
-  onUngroup
+  onUngroup,
+  toolLibrary
 }) => {
   const [activeTab, setActiveTab] = useState<'properties' | 'layers'>('properties');
   const [editingNameId, setEditingNameId] = useState<string | null>(null);
@@ -106,6 +109,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
       case ShapeType.HEART: return <Heart size={14} className="text-pink-400 group-hover:text-pink-300" />;
       case ShapeType.LINE: return <Minus size={14} className="text-indigo-400 group-hover:text-indigo-300 -rotate-45" />;
       case ShapeType.POLYLINE: return <Spline size={14} className="text-violet-400 group-hover:text-violet-300" />;
+      case ShapeType.PATH: return <PenTool size={14} className="text-violet-400 group-hover:text-violet-300" />;
+      case ShapeType.IMAGE: return <ImageIcon size={14} className="text-orange-400 group-hover:text-orange-300" />;
       case ShapeType.GROUP: return <Group size={14} className="text-slate-200 group-hover:text-white" />;
       default: return <Settings size={14} />;
     }
@@ -214,6 +219,118 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     className: "bg-slate-900 border border-slate-700 rounded p-1 text-sm text-slate-200 focus:border-sky-500 outline-none"
   };
 
+  // Machining parameters. Shapes without their own operation use the defaults
+  // (or inherit from their group), so editing a field creates the operation.
+  const hasCustomOperation = selectedShapes.some(s => !!s.operation);
+
+  const handleToggleOperation = (enabled: boolean) => {
+    onShapeChangeStart?.();
+    const updates = selectedShapes.map(s => ({
+      ...s,
+      operation: enabled ? (s.operation || { settings: { ...DEFAULT_SETTINGS } }) : undefined
+    })) as Shape[];
+    onUpdateShapes(updates);
+  };
+
+  const getCommonOpValue = (field: keyof MachineSettings): number | '' => {
+    const values = selectedShapes.map(s => (s.operation?.settings || DEFAULT_SETTINGS)[field]);
+    return values.every(v => v === values[0]) ? values[0] : '';
+  };
+
+  const handleOpChange = (field: keyof MachineSettings, valStr: string) => {
+    const val = parseFloat(valStr);
+    if (isNaN(val)) return;
+    const updates = selectedShapes.map(s => {
+      const operation = s.operation || { settings: { ...DEFAULT_SETTINGS } };
+      return { ...s, operation: { ...operation, settings: { ...operation.settings, [field]: val } } };
+    }) as Shape[];
+    onUpdateShapes(updates);
+  };
+
+  // Picking a tool or material copies the tool's diameter and the material's
+  // feeds and speeds into the operation, where they can still be fine-tuned.
+  const getCommonOpChoice = (field: 'toolId' | 'material'): string => {
+    const values = selectedShapes.map(s => s.operation?.[field] || '');
+    return values.every(v => v === values[0]) ? values[0] : '';
+  };
+
+  const handleToolChoice = (field: 'toolId' | 'material', value: string) => {
+    if (!toolLibrary) return;
+    onShapeChangeStart?.();
+    const updates = selectedShapes.map(s => {
+      const operation = { ...(s.operation || { settings: { ...DEFAULT_SETTINGS } }), [field]: value || undefined };
+      const tool = findTool(toolLibrary, operation.toolId);
+      return { ...s, operation: tool ? { ...operation, laser: tool.type === ToolType.LASER || undefined, settings: applyTool(operation.settings, tool, operation.material) } : operation };
+    }) as Shape[];
+    onUpdateShapes(updates);
+  };
+
+  // Laser operations fire at S = spindleSpeed with M4 and never move Z
+  const isLaser = hasCustomOperation && selectedShapes.every(s => s.operation?.laser);
+
+  const handleToggleLaser = (enabled: boolean) => {
+    onShapeChangeStart?.();
+    const updates = selectedShapes.map(s => {
+      const operation = s.operation || { settings: { ...DEFAULT_SETTINGS } };
+      return { ...s, operation: { ...operation, laser: enabled || undefined } };
+    }) as Shape[];
+    onUpdateShapes(updates);
+  };
+
+  const getCommonRasterValue = <K extends keyof RasterSettings>(field: K): RasterSettings[K] | '' => {
+    const values = selectedShapes.filter(s => s.type === ShapeType.IMAGE).map(s => (s as ImageShape).raster[field]);
+    return values.length > 0 && values.every(v => v === values[0]) ? values[0] : '';
+  };
+
+  const handleRasterChange = <K extends keyof RasterSettings>(field: K, value: RasterSettings[K]) => {
+    const updates = selectedShapes
+      .filter(s => s.type === ShapeType.IMAGE)
+      .map(s => ({ ...s, raster: { ...(s as ImageShape).raster, [field]: value } })) as Shape[];
+    onUpdateShapes(updates);
+  };
+
+  const OPERATION_FIELDS: { field: keyof MachineSettings, label: string }[] = [
+    { field: 'feedRate', label: 'Feed (mm/min)' },
+    { field: 'plungeRate', label: 'Plunge (mm/min)' },
+    { field: 'cutDepth', label: 'Depth (mm)' },
+    { field: 'stepDown', label: 'Step Down (mm)' },
+    { field: 'finishPassDepth', label: 'Finish Pass (mm)' },
+    { field: 'stepover', label: 'Stepover (%)' },
+    { field: 'rampAngle', label: 'Ramp Angle (°)' },
+    { field: 'leadRadius', label: 'Lead Radius (mm)' },
+    { field: 'safeHeight', label: 'Safe Z (mm)' },
+    { field: 'spindleSpeed', label: isLaser ? 'Power (S)' : 'Spindle (RPM)' },
+    { field: 'toolDiameter', label: 'Tool Dia. (mm)' },
+  ];
+
+  // Holding tabs. Changing the count drops dragged positions so the tabs are spread evenly again.
+  const hasTabs = selectedShapes.some(s => !!s.tabs);
+
+  const handleToggleTabs = (enabled: boolean) => {
+    onShapeChangeStart?.();
+    const updates = selectedShapes.map(s => ({
+      ...s,
+      tabs: enabled ? (s.tabs || { count: 4, width: 6, height: 1 }) : undefined
+    })) as Shape[];
+    onUpdateShapes(updates);
+  };
+
+  const getCommonTabValue = (field: 'count' | 'width' | 'height'): number | '' => {
+    const values = selectedShapes.filter(s => s.tabs).map(s => s.tabs![field]);
+    return values.length > 0 && values.every(v => v === values[0]) ? values[0] : '';
+  };
+
+  const handleTabChange = (field: 'count' | 'width' | 'height', valStr: string) => {
+    const val = parseFloat(valStr);
+    if (isNaN(val) || val < 0) return;
+    const updates = selectedShapes.filter(s => s.tabs).map(s => {
+      const tabs: TabSettings = { ...s.tabs!, [field]: field === 'count' ? Math.round(val) : val };
+      if (field === 'count') delete tabs.positions;
+      return { ...s, tabs };
+    }) as Shape[];
+    onUpdateShapes(updates);
+  };
+
   const handleCanvasChange = (dim: 'w' | 'h', valStr: string) => {
     const val = parseFloat(valStr);
     if (isNaN(val) || !onUpdateCanvasSize) return;
@@ -361,7 +478,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                 </div>
 
                 {/* Dimensions for Rect/Heart/Text(Width) */}
-                {(hasType(ShapeType.RECTANGLE) || hasType(ShapeType.HEART)) && (
+                {(hasType(ShapeType.RECTANGLE) || hasType(ShapeType.HEART) || hasType(ShapeType.IMAGE)) && (
                   <div className="grid grid-cols-2 gap-2">
                     <div className="flex flex-col gap-1">
                       <label className="text-xs text-slate-400">Width</label>
@@ -397,6 +514,57 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                   </div>
                 )}
 
+                {/* Image Specific */}
+                {hasType(ShapeType.IMAGE) && (
+                  <>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="flex flex-col gap-1">
+                        <label className="text-xs text-slate-400">Line Interval (mm)</label>
+                        <input
+                          type="number"
+                          min={0.01}
+                          step={0.01}
+                          value={getCommonRasterValue('lineInterval')}
+                          onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0) handleRasterChange('lineInterval', v); }}
+                          {...inputProps}
+                        />
+                      </div>
+                      <div className="flex flex-col gap-1">
+                        <label className="text-xs text-slate-400">Overscan (mm)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          value={getCommonRasterValue('overscan')}
+                          onChange={(e) => { const v = parseFloat(e.target.value); if (v >= 0) handleRasterChange('overscan', v); }}
+                          {...inputProps}
+                        />
+                      </div>
+                      <div className="flex flex-col gap-1">
+                        <label className="text-xs text-slate-400">Min Power (S)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          value={getCommonRasterValue('minPower')}
+                          onChange={(e) => { const v = parseFloat(e.target.value); if (v >= 0) handleRasterChange('minPower', v); }}
+                          {...inputProps}
+                        />
+                      </div>
+                      <label className="text-xs text-slate-400 flex items-center gap-1 cursor-pointer pt-4">
+                        <input
+                          type="checkbox"
+                          checked={getCommonRasterValue('bidirectional') !== false}
+                          onChange={(e) => { onShapeChangeStart?.(); handleRasterChange('bidirectional', e.target.checked); }}
+                          className="accent-sky-500"
+                        />
+                        Bidirectional
+                      </label>
+                    </div>
+                    {!isLaser && (
+                      <p className="text-xs text-slate-500">Images are only engraved by laser operations.</p>
+                    )}
+                  </>
+                )}
+
                 {/* Circle Specific */}
                 {hasType(ShapeType.CIRCLE) && (
                   <div className="flex flex-col gap-1">
@@ -495,6 +663,198 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                   </>
                 )}
 
+                {/* Machining Operation */}
+                <div className="flex flex-col gap-2 mt-2 pt-3 border-t border-slate-700">
+                  <div className="flex items-center justify-between">
+                    <label className="text-xs text-slate-300 font-semibold flex items-center gap-1"><Drill size={12} /> Machining</label>
+                    <label className="text-xs text-slate-400 flex items-center gap-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={hasCustomOperation}
+                        onChange={(e) => handleToggleOperation(e.target.checked)}
+                        className="accent-sky-500"
+                      />
+                      Custom parameters
+                    </label>
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <label className="text-xs text-slate-400">Profile</label>
+                    <select
+                      value={selectedShapes.every(s => (s.profile || ProfileMode.ON) === (selectedShapes[0].profile || ProfileMode.ON)) ? (selectedShapes[0].profile || ProfileMode.ON) : ''}
+                      onChange={(e) => {
+                        const val = e.target.value as ProfileMode;
+                        onUpdateShapes(selectedShapes.map(s => ({ ...s, profile: val } as Shape)));
+                      }}
+                      onFocus={() => onShapeChangeStart?.()}
+                      className="bg-slate-900 border border-slate-700 rounded p-1 text-sm text-slate-200 focus:border-sky-500 outline-none"
+                    >
+                      <option value="" disabled>Mixed</option>
+                      <option value={ProfileMode.ON}>On Line</option>
+                      <option value={ProfileMode.INSIDE}>Inside</option>
+                      <option value={ProfileMode.OUTSIDE}>Outside</option>
+                      <option value={ProfileMode.POCKET}>Pocket</option>
+                    </select>
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <label className="text-xs text-slate-400">Entry</label>
+                    <select
+                      value={selectedShapes.every(s => (s.entry || EntryMode.PLUNGE) === (selectedShapes[0].entry || EntryMode.PLUNGE)) ? (selectedShapes[0].entry || EntryMode.PLUNGE) : ''}
+                      onChange={(e) => {
+                        const val = e.target.value as EntryMode;
+                        onUpdateShapes(selectedShapes.map(s => ({ ...s, entry: val } as Shape)));
+                      }}
+                      onFocus={() => onShapeChangeStart?.()}
+                      className="bg-slate-900 border border-slate-700 rounded p-1 text-sm text-slate-200 focus:border-sky-500 outline-none"
+                    >
+                      <option value="" disabled>Mixed</option>
+                      <option value={EntryMode.PLUNGE}>Plunge</option>
+                      <option value={EntryMode.RAMP}>Ramp</option>
+                      <option value={EntryMode.HELIX}>Helix</option>
+                    </select>
+                  </div>
+                  {selectedShapes.some(s => s.profile === ProfileMode.POCKET) && (
+                    <div className="flex flex-col gap-1">
+                      <label className="text-xs text-slate-400">Pocket Strategy</label>
+                      <select
+                        value={selectedShapes.find(s => s.profile === ProfileMode.POCKET)?.pocketStrategy || PocketStrategy.OFFSET}
+                        onChange={(e) => {
+                          const val = e.target.value as PocketStrategy;
+                          onUpdateShapes(selectedShapes.map(s => ({ ...s, pocketStrategy: val } as Shape)));
+                        }}
+                        onFocus={() => onShapeChangeStart?.()}
+                        className="bg-slate-900 border border-slate-700 rounded p-1 text-sm text-slate-200 focus:border-sky-500 outline-none"
+                      >
+                        <option value={PocketStrategy.OFFSET}>Contour Parallel</option>
+                        <option value={PocketStrategy.ZIGZAG}>Zig-Zag</option>
+                      </select>
+                    </div>
+                  )}
+                  {!selectedShapes.some(s => s.profile === ProfileMode.POCKET) && (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <label className="text-xs text-slate-400">Holding Tabs</label>
+                        <label className="text-xs text-slate-400 flex items-center gap-1 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={hasTabs}
+                            onChange={(e) => handleToggleTabs(e.target.checked)}
+                            className="accent-sky-500"
+                          />
+                          Enabled
+                        </label>
+                      </div>
+                      {hasTabs && (
+                        <>
+                          <div className="grid grid-cols-3 gap-2">
+                            {([['count', 'Count'], ['width', 'Width (mm)'], ['height', 'Height (mm)']] as const).map(([field, label]) => (
+                              <div key={field} className="flex flex-col gap-1">
+                                <label className="text-xs text-slate-400">{label}</label>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step={field === 'count' ? 1 : 0.1}
+                                  value={getCommonTabValue(field)}
+                                  onChange={(e) => handleTabChange(field, e.target.value)}
+                                  {...inputProps}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                          {selectedShapes.some(s => s.tabs?.positions) ? (
+                            <button
+                              onClick={() => {
+                                onShapeChangeStart?.();
+                                onUpdateShapes(selectedShapes.filter(s => s.tabs).map(s => ({ ...s, tabs: { ...s.tabs!, positions: undefined } } as Shape)));
+                              }}
+                              className="text-xs text-sky-400 hover:text-sky-300 self-start"
+                            >
+                              Reset tab positions
+                            </button>
+                          ) : (
+                            <p className="text-xs text-slate-500">Drag the tab markers on the canvas to move them.</p>
+                          )}
+                        </>
+                      )}
+                    </>
+                  )}
+                  {!hasCustomOperation ? (
+                    <p className="text-xs text-slate-500">
+                      {hasType(ShapeType.GROUP) ? 'Using defaults. Group parameters apply to all children.' : 'Using group or default parameters.'}
+                    </p>
+                  ) : (
+                    <>
+                      {selectedShapes.length === 1 && (
+                        <div className="flex flex-col gap-1">
+                          <label className="text-xs text-slate-400">Operation Name</label>
+                          <input
+                            type="text"
+                            value={selectedShapes[0].operation?.name || ''}
+                            placeholder={selectedShapes[0].name || selectedShapes[0].type}
+                            onChange={(e) => {
+                              const s = selectedShapes[0];
+                              if (!s.operation) return;
+                              onUpdateShapes([{ ...s, operation: { ...s.operation, name: e.target.value || undefined } } as Shape]);
+                            }}
+                            {...inputProps}
+                          />
+                        </div>
+                      )}
+                      <label className="text-xs text-slate-400 flex items-center gap-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={isLaser}
+                          onChange={(e) => handleToggleLaser(e.target.checked)}
+                          className="accent-sky-500"
+                        />
+                        <Zap size={12} /> Laser (M4 power, no Z moves)
+                      </label>
+                      {toolLibrary && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <div className="flex flex-col gap-1">
+                            <label className="text-xs text-slate-400">Tool</label>
+                            <select
+                              value={getCommonOpChoice('toolId')}
+                              onChange={(e) => handleToolChoice('toolId', e.target.value)}
+                              className="bg-slate-900 border border-slate-700 rounded p-1 text-sm text-slate-200 focus:border-sky-500 outline-none"
+                            >
+                              <option value="">None</option>
+                              {[...toolLibrary.tools].sort((a, b) => a.number - b.number).map(tool => (
+                                <option key={tool.id} value={tool.id}>T{tool.number} {tool.name}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div className="flex flex-col gap-1">
+                            <label className="text-xs text-slate-400">Material</label>
+                            <select
+                              value={getCommonOpChoice('material')}
+                              onChange={(e) => handleToolChoice('material', e.target.value)}
+                              className="bg-slate-900 border border-slate-700 rounded p-1 text-sm text-slate-200 focus:border-sky-500 outline-none"
+                            >
+                              <option value="">None</option>
+                              {MATERIALS.map(material => (
+                                <option key={material} value={material}>{material}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+                      )}
+                      <div className="grid grid-cols-2 gap-2">
+                        {OPERATION_FIELDS.map(({ field, label }) => (
+                          <div key={field} className="flex flex-col gap-1">
+                            <label className="text-xs text-slate-400">{label}</label>
+                            <input
+                              type="number"
+                              value={getCommonOpValue(field)}
+                              onChange={(e) => handleOpChange(field, e.target.value)}
+                              {...inputProps}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+
                 <button
                   onClick={() => {
                     onShapeChangeStart?.();
@@ -0,0 +1,67 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { ProjectSnapshot } from '../types';
+
+interface RestoreSessionDialogProps {
+  snapshots: ProjectSnapshot[]; // Newest first
+  onRestore: (snapshot: ProjectSnapshot) => void;
+  onDismiss: () => void;
+}
+
+const describe = (snapshot: ProjectSnapshot) => {
+  const count = snapshot.project.shapes.length;
+  return `${count} object${count === 1 ? '' : 's'}${snapshot.project.isManualMode ? ', edited G-code' : ''}`;
+};
+
+const RestoreSessionDialog: React.FC<RestoreSessionDialogProps> = ({ snapshots, onRestore, onDismiss }) => {
+  const [latest, ...older] = snapshots;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60]">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-sm overflow-hidden">
+        <div className="bg-slate-900 p-4 flex justify-between items-center border-b border-slate-700">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <History size={18} className="text-sky-400" /> Restore Session
+          </h3>
+          <button onClick={onDismiss} className="text-slate-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="bg-sky-900/20 border border-sky-900/50 p-4 rounded">
+            <div className="text-xs text-slate-400 mb-1">Last session, saved {new Date(latest.savedAt).toLocaleString()}</div>
+            <div className="text-sm text-slate-200">{describe(latest)}</div>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => onRestore(latest)} className="flex-1 py-2 bg-sky-600 hover:bg-sky-500 text-white rounded text-sm font-medium">
+              Restore
+            </button>
+            <button onClick={onDismiss} className="flex-1 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-sm">
+              Start Fresh
+            </button>
+          </div>
+
+          {older.length > 0 && (
+            <div>
+              <div className="text-xs text-slate-400 mb-2">Earlier snapshots</div>
+              <div className="max-h-48 overflow-y-auto space-y-1 custom-scrollbar">
+                {older.map(snapshot => (
+                  <div key={snapshot.id} className="flex items-center justify-between bg-slate-900 border border-slate-700 rounded px-2 py-1.5">
+                    <div className="text-xs">
+                      <div className="text-slate-300">{new Date(snapshot.savedAt).toLocaleString()}</div>
+                      <div className="text-slate-500">{describe(snapshot)}</div>
+                    </div>
+                    <button onClick={() => onRestore(snapshot)} className="text-xs text-sky-400 hover:text-sky-300">
+                      Roll back
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestoreSessionDialog;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Play, X } from 'lucide-react';
+import { ResumePlan } from '../services/jobResumeService';
+
+interface RunFromLineDialogProps {
+  plan: ResumePlan;
+  lineText: string;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+const RunFromLineDialog: React.FC<RunFromLineDialogProps> = ({ plan, lineText, onStart, onCancel }) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[60]">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="bg-slate-900 p-4 flex justify-between items-center border-b border-slate-700">
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <Play size={18} className="text-green-400" /> Run from Line {plan.lineIndex + 1}
+          </h3>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="bg-slate-900 border border-slate-700 p-3 rounded space-y-1">
+            <div className="font-mono text-sm text-slate-200 break-all">{lineText.trim() || '(blank line)'}</div>
+            <div className="text-xs text-slate-400">
+              Starts at X{plan.start.x} Y{plan.start.y} Z{plan.start.z}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs text-slate-400 mb-1">Sent first to restore the machine state:</div>
+            <div className="bg-slate-900 border border-slate-700 p-3 rounded font-mono text-xs text-sky-300 space-y-0.5 max-h-40 overflow-y-auto custom-scrollbar">
+              {plan.preamble.map((line, i) => <div key={i}>{line}</div>)}
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {plan.safeZ !== null
+              ? `The tool retracts to Z${plan.safeZ} mm, moves over the start point and plunges.`
+              : 'Z is left where it is; the head moves straight over the start point.'} Check that the work zero and the tool in the spindle have not changed since the job stopped.
+          </p>
+
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="flex-1 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded text-sm">
+              Cancel
+            </button>
+            <button onClick={onStart} className="flex-1 py-2 bg-green-600 hover:bg-green-500 text-white rounded text-sm font-medium">
+              Start
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RunFromLineDialog;
@@ -1,12 +1,19 @@
 
 import React, { useMemo, useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { Play, X, Rotate3d, Square, ZoomIn, ZoomOut, Move, Trash2, Pause, Maximize2, Minimize2, ChevronDown, ChevronRight, Expand, Shrink, Edit3, Check, Bookmark, ArrowUp, ArrowDown, Undo2, Redo2, MousePointer2, Hand, GripVertical } from 'lucide-react';
+import { Play, X, Rotate3d, Square, ZoomIn, ZoomOut, Move, Trash2, Pause, Maximize2, Minimize2, ChevronDown, ChevronRight, Expand, Shrink, Edit3, Check, Bookmark, ArrowUp, ArrowDown, Undo2, Redo2, MousePointer2, Hand, GripVertical, Box } from 'lucide-react';
 import { calculateGCodeBounds } from '../utils';
-import { MachineStatus } from '../types';
+import { interpretGCode, motionPoints } from '../services/gcodeInterpreterService';
+import { StockSettings, SimulationTool, Heightmap, createHeightmap, cutSegment, shadeHeightmap } from '../services/stockSimulationService';
+import { DEFAULT_SETTINGS } from '../services/gcodeService';
+import { estimateJobTime, machineLimitsFromSettings } from '../services/timeEstimateService';
+import { ResumePlan, buildResumePlan } from '../services/jobResumeService';
+import { MachineStatus, ToolType, StreamingMode, ErrorPolicy, JobError } from '../types';
 import { serialService } from '../services/serialService';
 import CodeEditor from './CodeEditor';
 import Ripple from './Ripple';
+import JobErrorDialog from './JobErrorDialog';
+import RunFromLineDialog from './RunFromLineDialog';
 
 interface SimulatorPanelProps {
     gcode: string;
@@ -20,6 +27,7 @@ interface SimulatorPanelProps {
     onToggleGenerateOnlySelected?: () => void;
     onUndo?: () => void;
     onRedo?: () => void;
+    grblSettings?: Record<string, string>; // $n settings read from the machine, for the time estimate
 }
 
 const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
@@ -33,7 +41,8 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
     generateOnlySelected,
     onToggleGenerateOnlySelected,
     onUndo,
-    onRedo
+    onRedo,
+    grblSettings
 }) => {
     const [viewMode, setViewMode] = useState<'3D' | '2D'>('3D');
     const [isTopView, setIsTopView] = useState(false);
@@ -116,12 +125,25 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
     const [jobProgress, setJobProgress] = useState(0);
     const [jobTotal, setJobTotal] = useState(0);
     const [isJobRunning, setIsJobRunning] = useState(false);
+    const [streamingMode, setStreamingMode] = useState(() => serialService.getStreamingMode());
+    const [errorPolicy, setErrorPolicy] = useState(() => serialService.getErrorPolicy());
+    const [jobError, setJobError] = useState<{ error: JobError, isPaused: boolean } | null>(null);
+    // Run from line: follows the editor cursor and the clicked segment (1-based)
+    const [resumeLine, setResumeLine] = useState(1);
+    const [resumePlan, setResumePlan] = useState<ResumePlan | null>(null);
 
     // Simulation State
     const [isSimulating, setIsSimulating] = useState(false);
     const [simProgress, setSimProgress] = useState(0); // 0 to 1
     const [simSpeed, setSimSpeed] = useState(2); // Multiplier
     const requestRef = useRef<number>();
+
+    // Stock Simulation: material removed up to the simulation progress
+    const [showStock, setShowStock] = useState(false);
+    const [stock, setStock] = useState<StockSettings | null>(null);
+    const [simTool, setSimTool] = useState<SimulationTool>({ type: ToolType.FLAT, diameter: DEFAULT_SETTINGS.toolDiameter, angle: 60 });
+    const [stockImage, setStockImage] = useState<{ url: string, width: number, height: number } | null>(null);
+    const stockRef = useRef<{ map: Heightmap, stock: StockSettings, tool: SimulationTool, segments: unknown, cutCount: number, distance: number } | null>(null);
     const startTimeRef = useRef<number>();
     const startProgressRef = useRef<number>(0);
 
@@ -140,124 +162,119 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
     };
 
     // Parse G-code to paths with Z support and Arc subdivision
-    const { segments, totalLength, totalTime } = useMemo(() => {
-        const lines = gcode.split('\n');
-        const segs: { x1: number, y1: number, z1: number, x2: number, y2: number, z2: number, type: 'G0' | 'G1' | 'ARC', lineIndex: number, length: number, cumulativeLength: number, time: number }[] = [];
-        let x = 0, y = 0, z = 0;
+    const program = useMemo(() => interpretGCode(gcode), [gcode]);
+
+    const { segments, totalLength, rapidLength, unorderedRapidLength } = useMemo(() => {
+        const segs: { x1: number, y1: number, z1: number, x2: number, y2: number, z2: number, type: 'G0' | 'G1' | 'ARC', lineIndex: number, length: number, cumulativeLength: number }[] = [];
         let totalLen = 0;
-        let totalTimeSec = 0;
+        let rapidLen = 0;
+        // Travel before path ordering, as reported by the generator
+        let unorderedRapidLen: number | null = null;
+        const travelMatch = gcode.match(/^; RAPID TRAVEL: ([\d.]+) MM IN DRAWING ORDER/im);
+        if (travelMatch) {
+            unorderedRapidLen = parseFloat(travelMatch[1]);
+        }
 
-        let currentFeed = 1000; // Default feed rate mm/min
-        const rapidFeed = 3000; // Assumed rapid speed mm/min
+        program.motions.forEach(motion => {
+            if (motion.type === 'dwell') return;
+            const type = motion.type === 'rapid' ? 'G0' : motion.type === 'arc' ? 'ARC' : 'G1';
+            // Arcs are drawn as short chords
+            let { x: lx, y: ly, z: lz } = motion.start;
+            motionPoints(motion).forEach(p => {
+                const len = Math.hypot(p.x - lx, p.y - ly, p.z - lz);
+                if (len === 0) return;
+
+                segs.push({
+                    x1: lx, y1: ly, z1: lz,
+                    x2: p.x, y2: p.y, z2: p.z,
+                    type,
+                    lineIndex: motion.lineIndex,
+                    length: len,
+                    cumulativeLength: totalLen + len
+                });
+                totalLen += len;
+                if (type === 'G0') rapidLen += Math.hypot(p.x - lx, p.y - ly);
+                lx = p.x; ly = p.y; lz = p.z;
+            });
+        });
+        return { segments: segs, totalLength: totalLen, rapidLength: rapidLen, unorderedRapidLength: unorderedRapidLen };
+    }, [program]);
 
-        lines.forEach((line, index) => {
-            const l = line.trim().toUpperCase();
-            if (!l || l.startsWith(';') || l.startsWith('(')) return;
+    // Job time through a model of GRBL's planner, with the machine's own limits once $$ has been read
+    const { limits: machineLimits, complete: hasMachineLimits } = useMemo(() => machineLimitsFromSettings(grblSettings || {}), [grblSettings]);
+    const timeEstimate = useMemo(() => estimateJobTime(program.motions, machineLimits), [program, machineLimits]);
 
-            // Check for Feed rate update
-            const fMatch = l.match(/F([\d\.-]+)/);
-            if (fMatch) {
-                currentFeed = parseFloat(fMatch[1]);
-            }
+    const formatTime = (seconds: number) => {
+        const total = Math.ceil(seconds);
+        if (total < 60) return `${total}s`;
+        const hours = Math.floor(total / 3600);
+        const mins = Math.floor((total % 3600) / 60);
+        return hours > 0 ? `${hours}h ${mins}m` : `${mins}m ${total % 60}s`;
+    };
 
-            const isG0 = l.startsWith('G0');
-            const isG1 = l.startsWith('G1');
-            const isG2 = l.startsWith('G2');
-            const isG3 = l.startsWith('G3');
-
-            const xMatch = l.match(/X([\d\.-]+)/);
-            const yMatch = l.match(/Y([\d\.-]+)/);
-            const zMatch = l.match(/Z([\d\.-]+)/);
-
-            const newX = xMatch ? parseFloat(xMatch[1]) : x;
-            const newY = yMatch ? parseFloat(yMatch[1]) : y;
-            const newZ = zMatch ? parseFloat(zMatch[1]) : z;
-
-            if (isG0 || isG1) {
-                if (newX !== x || newY !== y || newZ !== z) {
-                    const len = Math.hypot(newX - x, newY - y, newZ - z);
-
-                    // Calculate Time
-                    const speed = isG0 ? rapidFeed : currentFeed;
-                    const time = (len / speed) * 60; // Minutes to Seconds
-
-                    segs.push({
-                        x1: x, y1: y, z1: z,
-                        x2: newX, y2: newY, z2: newZ,
-                        type: isG0 ? 'G0' : 'G1',
-                        lineIndex: index,
-                        length: len,
-                        cumulativeLength: totalLen + len,
-                        time: time
-                    });
-                    totalLen += len;
-                    totalTimeSec += time;
-                }
-                x = newX; y = newY; z = newZ;
-            } else if (isG2 || isG3) {
-                // Arc Parsing
-                const iMatch = l.match(/I([\d\.-]+)/);
-                const jMatch = l.match(/J([\d\.-]+)/);
-                const iVal = iMatch ? parseFloat(iMatch[1]) : 0;
-                const jVal = jMatch ? parseFloat(jMatch[1]) : 0;
-
-                const cx = x + iVal;
-                const cy = y + jVal;
-                const r = Math.hypot(iVal, jVal);
-
-                let startAngle = Math.atan2(y - cy, x - cx);
-                let endAngle = Math.atan2(newY - cy, newX - cx);
-
-                // Clockwise (G2) or Counter-Clockwise (G3) adjustment
-                if (isG2) {
-                    if (endAngle >= startAngle) endAngle -= 2 * Math.PI;
-                } else {
-                    if (endAngle <= startAngle) endAngle += 2 * Math.PI;
-                }
+    // Stock around the toolpath, as deep as its lowest cut plus a millimetre
+    const fitStock = (): StockSettings => {
+        const margin = 5;
+        const minZ = segments.reduce((z, seg) => Math.min(z, seg.z1, seg.z2), 0);
+        return {
+            x: bounds.minX - margin,
+            y: bounds.minY - margin,
+            width: bounds.maxX - bounds.minX + 2 * margin,
+            length: bounds.maxY - bounds.minY + 2 * margin,
+            thickness: Math.ceil(-minZ) + 1
+        };
+    };
 
-                const totalAngle = Math.abs(endAngle - startAngle);
-                // Segments based on arc length and radius, reasonably detailed
-                const segCount = Math.max(6, Math.ceil(totalAngle * r / 0.5));
-
-                let lx = x, ly = y, lz = z;
-                for (let k = 1; k <= segCount; k++) {
-                    const t = k / segCount;
-                    const ang = startAngle + (endAngle - startAngle) * t;
-                    const px = cx + r * Math.cos(ang);
-                    const py = cy + r * Math.sin(ang);
-                    const pz = z + (newZ - z) * t; // Helical interpolation
-
-                    const len = Math.hypot(px - lx, py - ly, pz - lz);
-
-                    // Arc Time (Current Feed)
-                    const time = (len / currentFeed) * 60;
-
-                    segs.push({
-                        x1: lx, y1: ly, z1: lz,
-                        x2: px, y2: py, z2: pz,
-                        type: 'ARC',
-                        lineIndex: index,
-                        length: len,
-                        cumulativeLength: totalLen + len,
-                        time: time
-                    });
-                    totalLen += len;
-                    totalTimeSec += time;
-                    lx = px; ly = py; lz = pz;
-                }
-                x = newX; y = newY; z = newZ;
-            }
-        });
-        return { segments: segs, totalLength: totalLen, totalTime: totalTimeSec };
-    }, [gcode]);
+    const handleToggleStock = () => {
+        if (!showStock && !stock) setStock(fitStock());
+        setShowStock(!showStock);
+    };
 
-    const formatTime = (seconds: number) => {
-        if (seconds < 60) return `${Math.ceil(seconds)}s`;
-        const mins = Math.floor(seconds / 60);
-        const secs = Math.ceil(seconds % 60);
-        return `${mins}m ${secs}s`;
+    const updateStock = (field: keyof StockSettings, valStr: string) => {
+        const val = parseFloat(valStr);
+        if (!stock || isNaN(val) || (field !== 'x' && field !== 'y' && val <= 0)) return;
+        setStock({ ...stock, [field]: val });
     };
 
+    // Cuts the heightmap forward to the simulation progress. Going back, or
+    // changing the stock, tool or program, starts again from fresh stock.
+    useEffect(() => {
+        if (!showStock || !stock || simTool.diameter <= 0) return;
+        const target = simProgress * totalLength;
+        let sim = stockRef.current;
+        if (!sim || sim.stock !== stock || sim.tool !== simTool || sim.segments !== segments || sim.distance > target) {
+            sim = { map: createHeightmap(stock, simTool), stock, tool: simTool, segments, cutCount: 0, distance: 0 };
+            stockRef.current = sim;
+        }
+        const { map } = sim;
+        while (sim.cutCount < segments.length && segments[sim.cutCount].cumulativeLength <= target) {
+            const seg = segments[sim.cutCount++];
+            cutSegment(map, simTool, { x: seg.x1, y: seg.y1, z: seg.z1 }, { x: seg.x2, y: seg.y2, z: seg.z2 });
+        }
+        if (sim.cutCount < segments.length) {
+            const seg = segments[sim.cutCount];
+            const t = (target - (seg.cumulativeLength - seg.length)) / seg.length;
+            if (t > 0) {
+                cutSegment(map, simTool, { x: seg.x1, y: seg.y1, z: seg.z1 }, {
+                    x: seg.x1 + (seg.x2 - seg.x1) * t,
+                    y: seg.y1 + (seg.y2 - seg.y1) * t,
+                    z: seg.z1 + (seg.z2 - seg.z1) * t
+                });
+            }
+        }
+        sim.distance = target;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = map.cols;
+        canvas.height = map.rows;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        const image = ctx.createImageData(map.cols, map.rows);
+        shadeHeightmap(map, image.data);
+        ctx.putImageData(image, 0, 0);
+        setStockImage({ url: canvas.toDataURL('image/png'), width: map.cols * map.cell, height: map.rows * map.cell });
+    }, [showStock, stock, simTool, segments, simProgress, totalLength]);
+
     // Simulation Loop
     const animate = (time: number) => {
         if (!startTimeRef.current) startTimeRef.current = time;
@@ -887,20 +904,32 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
         return () => window.removeEventListener('keydown', onKey);
     }, [selectedLineIndex, selectedSegmentIndices, handleDeleteSegments]);
 
-    const handleRunJob = async () => {
+    useEffect(() => {
+        if (cursorLineIndex !== null) setResumeLine(cursorLineIndex + 1);
+    }, [cursorLineIndex]);
+
+    useEffect(() => {
+        if (selectedLineIndex !== null) setResumeLine(selectedLineIndex + 1);
+    }, [selectedLineIndex]);
+
+    const lineCount = useMemo(() => gcode.split('\n').length, [gcode]);
+
+    const handleRunJob = async (fromLine?: number) => {
         if (!gcode || !isConnected) return;
         try {
             setIsJobRunning(true);
             setJobProgress(0);
-            const lines = gcode.split('\n')
-                .map(l => l.trim())
-                .filter(l => l.length > 0 && !l.startsWith(';') && !l.startsWith('('));
-            setJobTotal(lines.length);
 
             // Using the startJob method from serialService
             serialService.startJob(gcode, (current, total) => {
                 setJobProgress(current);
-            });
+                setJobTotal(total);
+                if (current >= total) setIsJobRunning(false);
+            }, (error) => {
+                const isPaused = serialService.getJobError() !== null;
+                if (!isPaused) setIsJobRunning(false);
+                setJobError({ error, isPaused });
+            }, fromLine);
         } catch (error) {
             console.error('Error running job:', error);
             setIsJobRunning(false);
@@ -917,6 +946,11 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
         setJobProgress(0);
     };
 
+    const handleResumeAfterError = (action: 'skip' | 'retry') => {
+        serialService.resumeAfterError(action);
+        setJobError(null);
+    };
+
     // Update path points based on selected segments
     const updatePathPoints = (segmentIndices: number[]) => {
         const points: { x: number, y: number, z: number, segmentIndex: number, pointType: 'start' | 'end' }[] = [];
@@ -975,6 +1009,7 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
                     {onUndo && <Ripple><button onClick={onUndo} className="text-slate-400 hover:text-white" title="Undo (Ctrl+Z)"><Undo2 size={18} /></button></Ripple>}
                     {onRedo && <Ripple><button onClick={onRedo} className="text-slate-400 hover:text-white" title="Redo (Ctrl+Y)"><Redo2 size={18} /></button></Ripple>}
                     <div className="w-px h-4 bg-slate-700 mx-1 self-center" />
+                    <Ripple><button onClick={handleToggleStock} className={`p-1 ${showStock ? 'text-sky-400 bg-sky-900/30' : 'text-slate-400 hover:text-white'}`} title="Toggle Stock Simulation"><Box size={16} /></button></Ripple>
                     <Ripple><button onClick={toggleTopView} className={`p-1 ${isTopView ? 'text-sky-400 bg-sky-900/30' : 'text-slate-400 hover:text-white'}`} title="Toggle Top View">2D</button></Ripple>
                     <Ripple><button onClick={toggleFullscreen} className="text-slate-400 hover:text-white">{isFullscreen ? <Shrink size={18} /> : <Expand size={18} />}</button></Ripple>
                     <Ripple><button onClick={onClose} className="text-slate-400 hover:text-white"><X size={18} /></button></Ripple>
@@ -1000,6 +1035,68 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
                             </div>
                         )}
 
+                        {/* Stock Settings */}
+                        {showStock && stock && (
+                            <div className="absolute top-4 right-4 z-40 bg-slate-800/90 backdrop-blur-sm border border-slate-700 rounded-lg p-3 w-56 flex flex-col gap-2 text-xs">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-slate-300 font-semibold flex items-center gap-1"><Box size={12} /> Stock</span>
+                                    <button onClick={() => setStock(fitStock())} className="text-sky-400 hover:text-sky-300">Fit to path</button>
+                                </div>
+                                <div className="grid grid-cols-3 gap-1">
+                                    {([['x', 'X'], ['y', 'Y'], ['thickness', 'Thick'], ['width', 'Width'], ['length', 'Length']] as const).map(([field, label]) => (
+                                        <label key={field} className="flex flex-col gap-0.5 text-slate-400">
+                                            {label}
+                                            <input
+                                                type="number"
+                                                value={parseFloat(stock[field].toFixed(2))}
+                                                onChange={(e) => updateStock(field, e.target.value)}
+                                                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-200 w-full"
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                                <div className="grid grid-cols-3 gap-1">
+                                    <label className="flex flex-col gap-0.5 text-slate-400">
+                                        Tool
+                                        <select
+                                            value={simTool.type}
+                                            onChange={(e) => setSimTool({ ...simTool, type: e.target.value as SimulationTool['type'] })}
+                                            className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-200 w-full"
+                                        >
+                                            <option value={ToolType.FLAT}>Flat</option>
+                                            <option value={ToolType.BALL}>Ball</option>
+                                            <option value={ToolType.VBIT}>V-Bit</option>
+                                        </select>
+                                    </label>
+                                    <label className="flex flex-col gap-0.5 text-slate-400">
+                                        Dia.
+                                        <input
+                                            type="number"
+                                            min={0.1}
+                                            step={0.1}
+                                            value={simTool.diameter}
+                                            onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0) setSimTool({ ...simTool, diameter: v }); }}
+                                            className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-200 w-full"
+                                        />
+                                    </label>
+                                    {simTool.type === ToolType.VBIT && (
+                                        <label className="flex flex-col gap-0.5 text-slate-400">
+                                            Angle
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={179}
+                                                value={simTool.angle}
+                                                onChange={(e) => { const v = parseFloat(e.target.value); if (v > 0 && v < 180) setSimTool({ ...simTool, angle: v }); }}
+                                                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-200 w-full"
+                                            />
+                                        </label>
+                                    )}
+                                </div>
+                                <p className="text-slate-500">Play or scrub the simulation to remove material.</p>
+                            </div>
+                        )}
+
                         {/* Drag Selection Hint */}
                         <div className="absolute top-4 left-4 z-40 bg-slate-800/80 text-slate-300 text-xs px-3 py-2 rounded-lg backdrop-blur-sm border border-slate-700 flex items-center gap-2 pointer-events-none">
                             <kbd className="px-2 py-1 bg-slate-700 rounded text-xs">Shift</kbd>
@@ -1095,8 +1192,26 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
                                 </>
                             )}
 
+                            {/* Stock, draped on the Z0 plane */}
+                            {showStock && stock && stockImage && (() => {
+                                const o = project(0, 0, 0), ex = project(1, 0, 0), ey = project(0, 1, 0);
+                                return (
+                                    <image
+                                        href={stockImage.url}
+                                        x={stock.x}
+                                        y={stock.y}
+                                        width={stockImage.width}
+                                        height={stockImage.height}
+                                        preserveAspectRatio="none"
+                                        transform={`matrix(${ex.x - o.x} ${ex.y - o.y} ${ey.x - o.x} ${ey.y - o.y} ${o.x} ${o.y})`}
+                                        style={{ imageRendering: 'pixelated' }}
+                                        pointerEvents="none"
+                                    />
+                                );
+                            })()}
+
                             {/* G-Code Path */}
-                            <g>
+                            <g opacity={showStock ? 0.35 : 1}>
                                 {segments.map((segment, idx) => {
                                     const isSelected = selectedSegmentIndices.includes(idx);
                                     const isHighlighted = cursorLineIndex !== null && segment.lineIndex === cursorLineIndex;
@@ -1333,7 +1448,21 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
                                     <div className="flex justify-between text-xs text-slate-400">
                                         <span>Simulation Progress</span>
                                         <div className="flex gap-2">
-                                            <span className="text-sky-400">Est. Time: {formatTime(totalTime)}</span>
+                                            <span
+                                                className="text-sky-400"
+                                                title={`Cutting ${formatTime(timeEstimate.cutting)}, rapids ${formatTime(timeEstimate.rapid)}, plunges ${formatTime(timeEstimate.plunge)}`
+                                                    + (timeEstimate.dwell > 0 ? `, dwells ${formatTime(timeEstimate.dwell)}` : '')
+                                                    + (hasMachineLimits ? '' : '\nMachine settings not read ($$); using GRBL defaults')}
+                                            >
+                                                Est. Time: {formatTime(timeEstimate.total)}{!hasMachineLimits && '*'}
+                                            </span>
+                                            <span className="text-slate-500">
+                                                Cut {formatTime(timeEstimate.cutting)} · Rapid {formatTime(timeEstimate.rapid)} · Plunge {formatTime(timeEstimate.plunge)}
+                                            </span>
+                                            <span title="XY rapid travel">
+                                                Rapids: {Math.round(rapidLength)} mm
+                                                {unorderedRapidLength !== null && ` (was ${Math.round(unorderedRapidLength)} mm)`}
+                                            </span>
                                             <span>{Math.round(simProgress * 100)}%</span>
                                         </div>
                                     </div>
@@ -1422,7 +1551,7 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
                                     id="job-control-accordion-content"
                                     className="overflow-hidden transition-all duration-300 ease-in-out"
                                     style={{
-                                        maxHeight: isJobControlExpanded ? '200px' : '0px'
+                                        maxHeight: isJobControlExpanded ? '340px' : '0px'
                                     }}
                                 >
                                     <div className="border-t border-slate-800 p-4">
@@ -1434,7 +1563,7 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
                                         <div className="flex gap-2">
                                             <Ripple disabled={!gcode || !isConnected || isJobRunning}>
                                                 <button
-                                                    onClick={handleRunJob}
+                                                    onClick={() => handleRunJob()}
                                                     disabled={!gcode || !isConnected || isJobRunning}
                                                     className="flex-1 py-2 bg-green-600 hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed rounded flex items-center justify-center gap-2 text-white font-medium"
                                                 >
@@ -1460,6 +1589,58 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
                                                 </button>
                                             </Ripple>
                                         </div>
+                                        <div className="flex items-center gap-2 mt-3 text-xs text-slate-400">
+                                            <span className="flex-1">Run from line</span>
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={lineCount}
+                                                value={resumeLine}
+                                                onChange={(e) => setResumeLine(Math.max(1, Math.min(lineCount, Math.round(Number(e.target.value)) || 1)))}
+                                                className="w-20 bg-slate-900 border border-slate-700 rounded px-1 py-1 text-slate-300"
+                                                title="Follows the editor cursor and the selected segment"
+                                            />
+                                            <button
+                                                onClick={() => setResumePlan(buildResumePlan(gcode, resumeLine - 1))}
+                                                disabled={!gcode || !isConnected || isJobRunning}
+                                                className="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed rounded text-slate-200 flex items-center gap-1"
+                                            >
+                                                <Play size={12} /> Run
+                                            </button>
+                                        </div>
+                                        <div className="flex items-center justify-between mt-2 text-xs text-slate-400">
+                                            <span>Streaming</span>
+                                            <select
+                                                value={streamingMode}
+                                                disabled={isJobRunning}
+                                                onChange={(e) => {
+                                                    const mode = e.target.value as StreamingMode;
+                                                    serialService.setStreamingMode(mode);
+                                                    setStreamingMode(mode);
+                                                }}
+                                                className="bg-slate-900 border border-slate-700 rounded px-1 py-1 text-slate-300 disabled:opacity-50"
+                                                title="Character counting keeps GRBL's planner fed; send-response waits for every ok"
+                                            >
+                                                <option value={StreamingMode.CHARACTER_COUNTING}>Character counting</option>
+                                                <option value={StreamingMode.SEND_RESPONSE}>Send-response</option>
+                                            </select>
+                                        </div>
+                                        <div className="flex items-center justify-between mt-2 text-xs text-slate-400">
+                                            <span>On Error</span>
+                                            <select
+                                                value={errorPolicy}
+                                                onChange={(e) => {
+                                                    const policy = e.target.value as ErrorPolicy;
+                                                    serialService.setErrorPolicy(policy);
+                                                    setErrorPolicy(policy);
+                                                }}
+                                                className="bg-slate-900 border border-slate-700 rounded px-1 py-1 text-slate-300"
+                                            >
+                                                <option value={ErrorPolicy.PAUSE}>Pause (feed hold)</option>
+                                                <option value={ErrorPolicy.STOP}>Stop job</option>
+                                                <option value={ErrorPolicy.CONTINUE}>Continue</option>
+                                            </select>
+                                        </div>
                                         {!isConnected && <div className="text-center text-xs text-red-400 mt-2">Machine Disconnected</div>}
                                     </div>
                                 </div>
@@ -1509,6 +1690,32 @@ const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
                     </div>
                 )}
             </div>
+
+            {jobError && (
+                <JobErrorDialog
+                    error={jobError.error}
+                    isPaused={jobError.isPaused}
+                    onSkip={() => handleResumeAfterError('skip')}
+                    onRetry={() => handleResumeAfterError('retry')}
+                    onAbort={() => {
+                        handleStopJob();
+                        setJobError(null);
+                    }}
+                    onClose={() => setJobError(null)}
+                />
+            )}
+
+            {resumePlan && (
+                <RunFromLineDialog
+                    plan={resumePlan}
+                    lineText={gcode.split('\n')[resumePlan.lineIndex] || ''}
+                    onStart={() => {
+                        handleRunJob(resumePlan.lineIndex);
+                        setResumePlan(null);
+                    }}
+                    onCancel={() => setResumePlan(null)}
+                />
+            )}
         </div>
 
     );
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Wrench, Plus, Copy, Trash2, X } from 'lucide-react';
+import { CuttingTool, ToolLibrary, ToolType, ToolChangeMode, ToolFeeds } from '../types';
+import { MATERIALS, TOOL_TYPE_LABELS, nextToolNumber } from '../services/toolLibraryService';
+
+interface ToolLibraryPanelProps {
+  library: ToolLibrary;
+  onChange: (library: ToolLibrary) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded p-1 text-sm text-slate-200 focus:border-sky-500 outline-none";
+
+const ToolLibraryPanel: React.FC<ToolLibraryPanelProps> = ({ library, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(library.tools[0]?.id || null);
+  const selected = library.tools.find(t => t.id === selectedId);
+
+  const updateTool = (updated: CuttingTool) => {
+    onChange({ ...library, tools: library.tools.map(t => t.id === updated.id ? updated : t) });
+  };
+
+  const handleAdd = (template?: CuttingTool) => {
+    const tool: CuttingTool = template
+      ? { ...template, id: uuidv4(), number: nextToolNumber(library), name: `${template.name} (copy)`, feeds: { ...template.feeds } }
+      : { id: uuidv4(), number: nextToolNumber(library), name: 'New Tool', type: ToolType.FLAT, diameter: 3.175, flutes: 2, angle: 0, feeds: {} };
+    onChange({ ...library, tools: [...library.tools, tool] });
+    setSelectedId(tool.id);
+  };
+
+  const handleDelete = (id: string) => {
+    const tools = library.tools.filter(t => t.id !== id);
+    onChange({ ...library, tools });
+    setSelectedId(tools[0]?.id || null);
+  };
+
+  const handleNumber = (field: 'number' | 'diameter' | 'flutes' | 'angle', valStr: string) => {
+    const val = parseFloat(valStr);
+    if (!selected || isNaN(val) || val < 0) return;
+    updateTool({ ...selected, [field]: field === 'number' || field === 'flutes' ? Math.round(val) : val });
+  };
+
+  // Clearing all three values of a material removes it from the tool
+  const handleFeed = (material: string, field: keyof ToolFeeds, valStr: string) => {
+    if (!selected) return;
+    const feeds = { ...selected.feeds };
+    const val = parseFloat(valStr);
+    if (valStr === '' && feeds[material]) {
+      const remaining = { ...feeds[material], [field]: 0 };
+      if (Object.values(remaining).every(v => v === 0)) {
+        delete feeds[material];
+      } else {
+        feeds[material] = remaining;
+      }
+    } else if (!isNaN(val) && val >= 0) {
+      feeds[material] = { ...(feeds[material] || { feedRate: 0, plungeRate: 0, spindleSpeed: 0 }), [field]: val };
+    } else {
+      return;
+    }
+    updateTool({ ...selected, feeds });
+  };
+
+  const takenNumbers = new Set<number>();
+  const duplicateNumbers = new Set<number>();
+  library.tools.forEach(t => (takenNumbers.has(t.number) ? duplicateNumbers : takenNumbers).add(t.number));
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 w-full">
+      <div className="p-4 border-b border-slate-700 flex justify-between items-center bg-slate-800">
+        <h2 className="font-bold text-slate-100 flex items-center gap-2">
+          <Wrench size={18} /> Tool Library
+        </h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-white"><X size={18} /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-4 custom-scrollbar">
+        <div className="flex flex-col gap-1">
+          <label className="text-xs text-slate-400">Tool Changes</label>
+          <select
+            value={library.toolChange}
+            onChange={(e) => onChange({ ...library, toolChange: e.target.value as ToolChangeMode })}
+            className={inputClass}
+          >
+            <option value={ToolChangeMode.M0}>Manual (pause with M0)</option>
+            <option value={ToolChangeMode.M6}>Automatic (T# M6)</option>
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center justify-between">
+            <label className="text-xs text-slate-300 font-semibold">Tools</label>
+            <button onClick={() => handleAdd()} className="text-xs text-sky-400 hover:text-sky-300 flex items-center gap-1">
+              <Plus size={12} /> Add
+            </button>
+          </div>
+          {library.tools.length === 0 && <p className="text-xs text-slate-500">No tools yet.</p>}
+          {[...library.tools].sort((a, b) => a.number - b.number).map(tool => (
+            <button
+              key={tool.id}
+              onClick={() => setSelectedId(tool.id)}
+              className={`flex items-center justify-between px-2 py-1.5 rounded text-left text-sm border ${tool.id === selectedId ? 'bg-sky-900/30 border-sky-700 text-sky-300' : 'bg-slate-800 border-slate-700 text-slate-300 hover:border-slate-600'}`}
+            >
+              <span className="truncate">
+                <span className={`font-mono mr-2 ${duplicateNumbers.has(tool.number) ? 'text-red-400' : 'text-slate-500'}`}>T{tool.number}</span>
+                {tool.name}
+              </span>
+              <span className="text-xs text-slate-500 shrink-0 ml-2">{TOOL_TYPE_LABELS[tool.type]} · D{tool.diameter}</span>
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="flex flex-col gap-2 pt-3 border-t border-slate-700">
+            <div className="flex gap-2">
+              <div className="flex flex-col gap-1 w-16">
+                <label className="text-xs text-slate-400">Number</label>
+                <input type="number" min={1} step={1} value={selected.number} onChange={(e) => handleNumber('number', e.target.value)} className={inputClass} />
+              </div>
+              <div className="flex flex-col gap-1 flex-1">
+                <label className="text-xs text-slate-400">Name</label>
+                <input type="text" value={selected.name} onChange={(e) => updateTool({ ...selected, name: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+            {duplicateNumbers.has(selected.number) && (
+              <p className="text-xs text-red-400">Another tool uses T{selected.number}.</p>
+            )}
+            <div className="flex flex-col gap-1">
+              <label className="text-xs text-slate-400">Type</label>
+              <select
+                value={selected.type}
+                onChange={(e) => updateTool({ ...selected, type: e.target.value as ToolType })}
+                className={inputClass}
+              >
+                {Object.values(ToolType).map(type => (
+                  <option key={type} value={type}>{TOOL_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="flex flex-col gap-1">
+                <label className="text-xs text-slate-400">{selected.type === ToolType.LASER ? 'Beam (mm)' : 'Diameter (mm)'}</label>
+                <input type="number" min={0} step={0.1} value={selected.diameter} onChange={(e) => handleNumber('diameter', e.target.value)} className={inputClass} />
+              </div>
+              <div className="flex flex-col gap-1">
+                <label className="text-xs text-slate-400">Flutes</label>
+                <input type="number" min={0} step={1} value={selected.flutes} onChange={(e) => handleNumber('flutes', e.target.value)} className={inputClass} />
+              </div>
+              {selected.type === ToolType.VBIT && (
+                <div className="flex flex-col gap-1">
+                  <label className="text-xs text-slate-400">Angle (°)</label>
+                  <input type="number" min={0} max={180} step={1} value={selected.angle} onChange={(e) => handleNumber('angle', e.target.value)} className={inputClass} />
+                </div>
+              )}
+            </div>
+
+            <label className="text-xs text-slate-300 font-semibold mt-2">Feeds &amp; Speeds</label>
+            <div className="grid grid-cols-[1fr_4rem_4rem_4.5rem] gap-1 items-center text-xs">
+              <span className="text-slate-500">Material</span>
+              <span className="text-slate-500">Feed</span>
+              <span className="text-slate-500">Plunge</span>
+              <span className="text-slate-500">{selected.type === ToolType.LASER ? 'Power' : 'RPM'}</span>
+              {MATERIALS.map(material => (
+                <React.Fragment key={material}>
+                  <span className={selected.feeds[material] ? 'text-slate-300' : 'text-slate-500'}>{material}</span>
+                  {(['feedRate', 'plungeRate', 'spindleSpeed'] as const).map(field => (
+                    <input
+                      key={field}
+                      type="number"
+                      min={0}
+                      value={selected.feeds[material]?.[field] ?? ''}
+                      onChange={(e) => handleFeed(material, field, e.target.value)}
+                      className={inputClass}
+                    />
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+
+            <div className="flex gap-2 mt-2">
+              <button onClick={() => handleAdd(selected)} className="flex-1 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 rounded text-xs flex items-center justify-center gap-1">
+                <Copy size={12} /> Duplicate
+              </button>
+              <button onClick={() => handleDelete(selected.id)} className="flex-1 py-1.5 bg-red-900/20 hover:bg-red-900/40 text-red-400 border border-red-900/30 rounded text-xs flex items-center justify-center gap-1">
+                <Trash2 size={12} /> Delete
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ToolLibraryPanel;
@@ -1,7 +1,7 @@
 
 import React, { useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { Square, Circle, Type, MousePointer2, Hand, Ruler, Heart, Pen, Minus, LayoutTemplate, ChevronDown, Upload, Download, Group, Ungroup, Split, Undo2, Redo2, LassoSelect, Hexagon, Spline, Highlighter, ZoomIn } from 'lucide-react';
+import { Square, Circle, Type, MousePointer2, Hand, Ruler, Heart, Pen, Minus, LayoutTemplate, ChevronDown, Upload, Download, Group, Ungroup, Split, Undo2, Redo2, LassoSelect, Hexagon, Spline, Highlighter, ZoomIn, Save, FolderOpen, FileDown, ImagePlus } from 'lucide-react';
 import { ShapeType, Tool, Unit } from '../types';
 import Ripple from './Ripple';
 
@@ -17,7 +17,11 @@ interface ToolPaletteProps {
   onUnitChange: (unit: Unit) => void;
   onClosePalette: () => void;
   onExportSVG: () => void;
-  onImportSVG: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onExportDXF: () => void;
+  onImportDrawing: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onTraceImage: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onSaveProject: () => void;
+  onOpenProject: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onGroup: () => void;
   onUngroup: () => void;
   onExplode: () => void;
@@ -36,7 +40,11 @@ const ToolPalette: React.FC<ToolPaletteProps> = ({
   unit,
   onUnitChange,
   onExportSVG,
-  onImportSVG,
+  onExportDXF,
+  onImportDrawing,
+  onTraceImage,
+  onSaveProject,
+  onOpenProject,
   onGroup,
   onUngroup,
   onExplode,
@@ -44,6 +52,8 @@ const ToolPalette: React.FC<ToolPaletteProps> = ({
   onRedo
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
 
   const btnClass = (isActive: boolean, color: "sky" | "rose" | "indigo" | "cyan" | "slate" = "sky") => {
     let activeColorClass = 'bg-sky-600 text-white shadow shadow-sky-900/40';
@@ -308,13 +318,27 @@ const ToolPalette: React.FC<ToolPaletteProps> = ({
           </div>
         </div>
 
-        <Ripple><button onClick={() => fileInputRef.current?.click()} className={btnClass(false, 'cyan')} title="Import SVG">
+        <Ripple><button onClick={() => projectInputRef.current?.click()} className={btnClass(false, 'cyan')} title="Open Project">
+          <FolderOpen size={18} />
+          <input type="file" ref={projectInputRef} onChange={onOpenProject} accept=".cncforge,application/json" className="hidden" />
+        </button></Ripple>
+        <Ripple><button onClick={onSaveProject} className={btnClass(false, 'cyan')} title="Save Project">
+          <Save size={18} />
+        </button></Ripple>
+        <Ripple><button onClick={() => fileInputRef.current?.click()} className={btnClass(false, 'cyan')} title="Import SVG or DXF">
           <Upload size={18} />
-          <input type="file" ref={fileInputRef} onChange={onImportSVG} accept=".svg" className="hidden" />
+          <input type="file" ref={fileInputRef} onChange={onImportDrawing} accept=".svg,.dxf" className="hidden" />
+        </button></Ripple>
+        <Ripple><button onClick={() => imageInputRef.current?.click()} className={btnClass(false, 'cyan')} title="Trace Image (PNG/JPG)">
+          <ImagePlus size={18} />
+          <input type="file" ref={imageInputRef} onChange={onTraceImage} accept="image/png,image/jpeg" className="hidden" />
         </button></Ripple>
         <Ripple><button onClick={onExportSVG} className={btnClass(false, 'cyan')} title="Export SVG">
           <Download size={18} />
         </button></Ripple>
+        <Ripple><button onClick={onExportDXF} className={btnClass(false, 'cyan')} title="Export DXF">
+          <FileDown size={18} />
+        </button></Ripple>
       </div>
 
       <div className="flex gap-2 items-center">
@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Contour, GroupShape, PathShape, ShapeType } from '../types';
+import { polygonArea, pointInPolygon } from './toolpathService';
+import { contoursToPathShape } from './svgImportService';
+
+type Point = { x: number, y: number };
+
+export interface TraceOptions {
+    threshold: number; // 0-255; darker pixels are traced
+    invert: boolean; // Trace the light pixels instead
+    despeckle: number; // Outlines enclosing fewer pixels than this are dropped
+    smoothing: number; // 0-1; corners turning less than smoothing × 180° are rounded
+    width: number; // Width of the whole image on the canvas, mm
+}
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = {
+    threshold: 128,
+    invert: false,
+    despeckle: 16,
+    smoothing: 0.4,
+    width: 100,
+};
+
+// Images are scaled down to this many pixels on their longer side before tracing
+export const MAX_TRACE_PIXELS = 800;
+
+// Deviation, in pixels, allowed when straightening the pixel staircase
+const SIMPLIFY_TOLERANCE = 0.75;
+const SMOOTHING_ROUNDS = 3;
+
+export interface Bitmap {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray; // RGBA, as in ImageData
+}
+
+// Transparent pixels count as white paper
+const foregroundMask = (image: Bitmap, { threshold, invert }: TraceOptions): Uint8Array => {
+    const mask = new Uint8Array(image.width * image.height);
+    for (let i = 0; i < mask.length; i++) {
+        const [r, g, b, a] = [image.data[i * 4], image.data[i * 4 + 1], image.data[i * 4 + 2], image.data[i * 4 + 3] / 255];
+        const luminance = (0.299 * r + 0.587 * g + 0.114 * b) * a + 255 * (1 - a);
+        mask[i] = (luminance < threshold) !== invert ? 1 : 0;
+    }
+    return mask;
+};
+
+// Walks the pixel edges between foreground and background into closed loops.
+// Every foreground pixel contributes its sides that face the background,
+// directed clockwise around the pixel, so outlines run clockwise and holes
+// counterclockwise (on the Y-down image). Where two loops touch at a corner
+// the walk turns right, which keeps diagonal neighbours apart.
+const traceLoops = (mask: Uint8Array, width: number, height: number): Point[][] => {
+    const at = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+    const key = (x: number, y: number) => y * (width + 1) + x;
+    const outgoing = new Map<number, number[]>();
+    const addEdge = (x0: number, y0: number, x1: number, y1: number) => {
+        const k = key(x0, y0);
+        const list = outgoing.get(k);
+        if (list) list.push(key(x1, y1));
+        else outgoing.set(k, [key(x1, y1)]);
+    };
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!at(x, y)) continue;
+            if (!at(x, y - 1)) addEdge(x, y, x + 1, y);
+            if (!at(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+            if (!at(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+            if (!at(x - 1, y)) addEdge(x, y + 1, x, y);
+        }
+    }
+
+    const point = (k: number): Point => ({ x: k % (width + 1), y: Math.floor(k / (width + 1)) });
+    const loops: Point[][] = [];
+    for (const [startKey, targets] of outgoing) {
+        while (targets.length > 0) {
+            const loop: Point[] = [point(startKey)];
+            let prev = point(startKey);
+            let currentKey = targets.pop()!;
+            while (currentKey !== startKey) {
+                const current = point(currentKey);
+                loop.push(current);
+                const choices = outgoing.get(currentKey)!;
+                let next = 0;
+                if (choices.length > 1) {
+                    // Turn right: the choice whose direction is the incoming one rotated clockwise
+                    const dx = current.x - prev.x, dy = current.y - prev.y;
+                    const found = choices.findIndex(k => {
+                        const p = point(k);
+                        return p.x - current.x === -dy && p.y - current.y === dx;
+                    });
+                    next = found >= 0 ? found : 0;
+                }
+                prev = current;
+                currentKey = choices.splice(next, 1)[0];
+            }
+            loops.push(loop);
+        }
+    }
+    return loops;
+};
+
+// Douglas-Peucker on an open run of points, keeping both ends
+const simplifyRun = (points: Point[], tolerance: number): Point[] => {
+    if (points.length < 3) return points;
+    const a = points[0], b = points[points.length - 1];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    let worst = 0, index = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const p = points[i];
+        const d = len < 1e-9
+            ? Math.hypot(p.x - a.x, p.y - a.y)
+            : Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / len;
+        if (d > worst) { worst = d; index = i; }
+    }
+    if (worst <= tolerance) return [a, b];
+    return [...simplifyRun(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplifyRun(points.slice(index), tolerance)];
+};
+
+// Splits the loop at its two most distant points so both halves can be simplified as runs
+const simplifyLoop = (pixelLoop: Point[], tolerance: number): Point[] => {
+    // Only the corners of the pixel outline matter
+    const loop = pixelLoop.filter((p, i) => {
+        const prev = pixelLoop[(i - 1 + pixelLoop.length) % pixelLoop.length];
+        const next = pixelLoop[(i + 1) % pixelLoop.length];
+        return (p.x - prev.x) * (next.y - p.y) !== (p.y - prev.y) * (next.x - p.x);
+    });
+    let far = 0, farDist = 0;
+    loop.forEach((p, i) => {
+        const d = Math.hypot(p.x - loop[0].x, p.y - loop[0].y);
+        if (d > farDist) { farDist = d; far = i; }
+    });
+    const first = simplifyRun(loop.slice(0, far + 1), tolerance);
+    const second = simplifyRun([...loop.slice(far), loop[0]], tolerance);
+    const simplified = [...first.slice(0, -1), ...second.slice(0, -1)];
+    // A feature a pixel or so across would collapse to a line: keep its corners
+    return simplified.length >= 3 ? simplified : loop;
+};
+
+// Chaikin corner cutting, applied only to corners gentle enough to be curves
+const smoothLoop = (loop: Point[], smoothing: number): Point[] => {
+    const maxTurn = smoothing * Math.PI;
+    let points = loop;
+    for (let round = 0; round < SMOOTHING_ROUNDS && maxTurn > 0; round++) {
+        const next: Point[] = [];
+        points.forEach((p, i) => {
+            const prev = points[(i - 1 + points.length) % points.length];
+            const after = points[(i + 1) % points.length];
+            const turn = Math.abs(Math.atan2(
+                (p.x - prev.x) * (after.y - p.y) - (p.y - prev.y) * (after.x - p.x),
+                (p.x - prev.x) * (after.x - p.x) + (p.y - prev.y) * (after.y - p.y)
+            ));
+            if (turn > maxTurn) {
+                next.push(p);
+                return;
+            }
+            next.push({ x: 0.75 * p.x + 0.25 * prev.x, y: 0.75 * p.y + 0.25 * prev.y });
+            next.push({ x: 0.75 * p.x + 0.25 * after.x, y: 0.75 * p.y + 0.25 * after.y });
+        });
+        points = next;
+    }
+    return points;
+};
+
+// Closed outlines of the dark (or, inverted, light) areas of an image, in pixels
+export const traceBitmap = (image: Bitmap, options: TraceOptions): Point[][] => {
+    const mask = foregroundMask(image, options);
+    return traceLoops(mask, image.width, image.height)
+        .filter(loop => Math.abs(polygonArea(loop)) >= Math.max(1, options.despeckle))
+        .map(loop => smoothLoop(simplifyLoop(loop, SIMPLIFY_TOLERANCE), options.smoothing))
+        .filter(loop => loop.length >= 3);
+};
+
+// The traced outlines as path shapes, scaled to `options.width` and placed
+// with the image's top-left corner at `origin`. Each outline carries the holes
+// directly inside it as further contours, so pockets and tool compensation
+// leave the holes standing.
+export const traceToGroup = (loops: Point[][], imageWidth: number, options: TraceOptions, origin: Point, name?: string): GroupShape => {
+    const scale = options.width / imageWidth;
+    // Outlines run clockwise on the Y-down image, which is counter-clockwise by the shoelace sign
+    const outlines = loops.filter(loop => polygonArea(loop) > 0);
+    const holes = outlines.map(() => [] as Point[][]);
+    loops.filter(loop => polygonArea(loop) < 0).forEach(hole => {
+        // The smallest outline around a hole is the one it belongs to
+        let owner = -1;
+        outlines.forEach((outline, i) => {
+            if (pointInPolygon(hole[0], outline) && (owner < 0 || Math.abs(polygonArea(outline)) < Math.abs(polygonArea(outlines[owner])))) owner = i;
+        });
+        if (owner >= 0) holes[owner].push(hole);
+    });
+
+    const toContour = (loop: Point[]): Contour => {
+        const points = loop.map(p => ({ x: origin.x + p.x * scale, y: origin.y + p.y * scale }));
+        return {
+            start: points[0],
+            segments: [...points.slice(1), points[0]].map(p => ({ type: 'LINE' as const, x: p.x, y: p.y })),
+            closed: true
+        };
+    };
+    const children = outlines
+        .map((outline, i) => contoursToPathShape([outline, ...holes[i]].map(toContour)))
+        .filter((shape): shape is PathShape => !!shape);
+    return { id: uuidv4(), type: ShapeType.GROUP, x: 0, y: 0, name, children };
+};
+
+// Decodes a PNG or JPG, scaled down to at most MAX_TRACE_PIXELS on its longer side
+export const loadBitmap = async (file: Blob): Promise<Bitmap> => {
+    const image = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_TRACE_PIXELS / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.width * scale));
+    canvas.height = Math.max(1, Math.round(image.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not read the image.');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    image.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
@@ -0,0 +1,396 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Shape, ShapeType, CircleShape, LineShape, PolylineShape, GroupShape, Contour, ToolpathSegment } from '../types';
+import { bezierToSegments, ellipseToBeziers, Matrix, multiplyMatrix, applyMatrix, matrixScale, isSimilarity } from './toolpathService';
+import { contoursToPathShape } from './svgImportService';
+
+type Point = { x: number, y: number };
+
+// One entity as its raw group codes, in file order
+interface DxfEntity {
+    type: string;
+    codes: [number, string][];
+    vertices?: DxfEntity[]; // VERTEX entities of an old-style POLYLINE
+}
+
+interface DxfBlock {
+    base: Point;
+    entities: DxfEntity[];
+}
+
+interface DxfDrawing {
+    units: number; // Millimetres per drawing unit
+    hiddenLayers: Set<string>;
+    blocks: Record<string, DxfBlock>;
+    entities: DxfEntity[];
+}
+
+// $INSUNITS codes; unitless drawings are taken as millimetres
+const INSUNITS_MM: Record<number, number> = { 0: 1, 1: 25.4, 2: 304.8, 4: 1, 5: 10, 6: 1000, 8: 25.4e-6, 9: 0.0254, 10: 914.4 };
+
+// Blocks nested deeper than this are assumed to refer to themselves
+const MAX_INSERT_DEPTH = 16;
+
+const value = (e: DxfEntity, code: number): string | undefined => e.codes.find(([c]) => c === code)?.[1];
+
+const num = (e: DxfEntity, code: number, def = 0) => {
+    const v = parseFloat(value(e, code) ?? '');
+    return isNaN(v) ? def : v;
+};
+
+const layerOf = (e: DxfEntity) => value(e, 8) ?? '0';
+
+const readPairs = (text: string): [number, string][] => {
+    const lines = text.split(/\r?\n/);
+    const pairs: [number, string][] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        const code = parseInt(lines[i].trim(), 10);
+        if (isNaN(code)) break;
+        pairs.push([code, lines[i + 1].trim()]);
+    }
+    return pairs;
+};
+
+// Splits a run of pairs into entities, attaching VERTEX entities to the POLYLINE before them
+const readEntities = (pairs: [number, string][]): DxfEntity[] => {
+    const entities: DxfEntity[] = [];
+    let polyline: DxfEntity | null = null;
+    let current: DxfEntity | null = null;
+    for (const [code, v] of pairs) {
+        if (code !== 0) {
+            current?.codes.push([code, v]);
+            continue;
+        }
+        current = { type: v, codes: [] };
+        if (v === 'VERTEX' && polyline) {
+            polyline.vertices!.push(current);
+        } else if (v === 'SEQEND') {
+            polyline = null;
+        } else {
+            polyline = v === 'POLYLINE' ? current : null;
+            if (polyline) current.vertices = [];
+            entities.push(current);
+        }
+    }
+    return entities;
+};
+
+const readDrawing = (text: string): DxfDrawing => {
+    const pairs = readPairs(text);
+    const drawing: DxfDrawing = { units: 1, hiddenLayers: new Set(), blocks: {}, entities: [] };
+
+    let i = 0;
+    while (i < pairs.length) {
+        // Each section runs from "0 SECTION / 2 NAME" to "0 ENDSEC"
+        if (pairs[i][0] !== 0 || pairs[i][1] !== 'SECTION') { i++; continue; }
+        const name = pairs[i + 1]?.[1];
+        let end = i + 2;
+        while (end < pairs.length && !(pairs[end][0] === 0 && pairs[end][1] === 'ENDSEC')) end++;
+        const body = pairs.slice(i + 2, end);
+        i = end + 1;
+
+        if (name === 'HEADER') {
+            const at = body.findIndex(([c, v]) => c === 9 && v === '$INSUNITS');
+            const code = at >= 0 ? parseInt(body[at + 1]?.[1], 10) : 0;
+            drawing.units = INSUNITS_MM[code] ?? 1;
+        } else if (name === 'TABLES') {
+            for (const entry of readEntities(body)) {
+                if (entry.type !== 'LAYER') continue;
+                // Frozen layers have flag 1; switched-off layers a negative colour
+                if ((num(entry, 70) & 1) || num(entry, 62) < 0) drawing.hiddenLayers.add(value(entry, 2) ?? '');
+            }
+        } else if (name === 'BLOCKS') {
+            let block: DxfBlock | null = null;
+            for (const entity of readEntities(body)) {
+                if (entity.type === 'BLOCK') {
+                    block = { base: { x: num(entity, 10), y: num(entity, 20) }, entities: [] };
+                    drawing.blocks[value(entity, 2) ?? ''] = block;
+                } else if (entity.type === 'ENDBLK') {
+                    block = null;
+                } else if (block) {
+                    block.entities.push(entity);
+                }
+            }
+        } else if (name === 'ENTITIES') {
+            drawing.entities = readEntities(body);
+        }
+    }
+    return drawing;
+};
+
+// Entities with an extrusion direction of -Z are drawn mirrored in X
+const ocsMatrix = (e: DxfEntity): Matrix => num(e, 230, 1) < 0 ? [-1, 0, 0, 1, 0, 0] : [1, 0, 0, 1, 0, 0];
+
+const normalizeSweep = (sweep: number) => {
+    const full = Math.PI * 2;
+    sweep %= full;
+    return sweep <= 1e-9 ? sweep + full : sweep;
+};
+
+// Appends Bézier pieces to a contour once they are in canvas coordinates
+const appendCubics = (segments: ToolpathSegment[], start: Point, cubics: Point[][], m: Matrix) => {
+    let from = applyMatrix(m, start);
+    for (const cubic of cubics) {
+        const controls = cubic.map(p => applyMatrix(m, p));
+        segments.push(...bezierToSegments([from, ...controls]));
+        from = controls[controls.length - 1];
+    }
+};
+
+const ellipseContour = (center: Point, rx: number, ry: number, rotation: number, start: number, sweep: number, m: Matrix): Contour => {
+    const cubics = ellipseToBeziers(center, rx, ry, rotation, start, sweep);
+    const first = {
+        x: center.x + rx * Math.cos(start) * Math.cos(rotation) - ry * Math.sin(start) * Math.sin(rotation),
+        y: center.y + rx * Math.cos(start) * Math.sin(rotation) + ry * Math.sin(start) * Math.cos(rotation)
+    };
+    const segments: ToolpathSegment[] = [];
+    appendCubics(segments, first, cubics, m);
+    return { start: applyMatrix(m, first), segments, closed: sweep >= Math.PI * 2 - 1e-9 };
+};
+
+interface Vertex extends Point {
+    bulge: number;
+}
+
+const lwpolylineVertices = (e: DxfEntity): Vertex[] => {
+    const vertices: Vertex[] = [];
+    for (const [code, v] of e.codes) {
+        if (code === 10) vertices.push({ x: parseFloat(v), y: 0, bulge: 0 });
+        else if (code === 20 && vertices.length) vertices[vertices.length - 1].y = parseFloat(v);
+        else if (code === 42 && vertices.length) vertices[vertices.length - 1].bulge = parseFloat(v);
+    }
+    return vertices;
+};
+
+// A polyline without bulges stays editable point by point; with bulges its
+// arcs are kept as arcs
+const polylineShape = (vertices: Vertex[], closed: boolean, m: Matrix): Shape | null => {
+    if (vertices.length < 2) return null;
+    if (vertices.every(v => Math.abs(v.bulge) < 1e-9)) {
+        const points = vertices.map(v => applyMatrix(m, v));
+        if (closed) points.push({ ...points[0] });
+        return { id: uuidv4(), type: ShapeType.POLYLINE, x: 0, y: 0, points } as PolylineShape;
+    }
+
+    const segments: ToolpathSegment[] = [];
+    const count = closed ? vertices.length : vertices.length - 1;
+    for (let k = 0; k < count; k++) {
+        const a = vertices[k];
+        const b = vertices[(k + 1) % vertices.length];
+        const chord = Math.hypot(b.x - a.x, b.y - a.y);
+        if (Math.abs(a.bulge) < 1e-9 || chord < 1e-9) {
+            const p = applyMatrix(m, b);
+            segments.push({ type: 'LINE', x: p.x, y: p.y });
+            continue;
+        }
+        // The bulge is tan(θ/4) for the included angle θ, positive counterclockwise
+        const theta = 4 * Math.atan(a.bulge);
+        const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+        const toCenter = chord / 2 / Math.tan(theta / 2);
+        const center = { x: mid.x - (b.y - a.y) / chord * toCenter, y: mid.y + (b.x - a.x) / chord * toCenter };
+        const r = Math.hypot(a.x - center.x, a.y - center.y);
+        const cubics = ellipseToBeziers(center, r, r, 0, Math.atan2(a.y - center.y, a.x - center.x), theta);
+        cubics[cubics.length - 1][2] = b;
+        appendCubics(segments, a, cubics, m);
+    }
+    return contoursToPathShape([{ start: applyMatrix(m, vertices[0]), segments, closed }]);
+};
+
+// Inserts each interior knot until it has multiplicity `degree`, which
+// leaves a chain of Bézier control polygons (Boehm's algorithm)
+const splineToBeziers = (degree: number, knots: number[], controls: Point[]): Point[][] | null => {
+    const n = controls.length;
+    if (knots.length !== n + degree + 1) return null;
+    // Only clamped splines start and end on their control polygon
+    const clamped = knots.slice(0, degree + 1).every(k => k === knots[0]) && knots.slice(-degree - 1).every(k => k === knots[knots.length - 1]);
+    if (!clamped) return null;
+
+    let U = [...knots];
+    let P = [...controls];
+    const interior = [...new Set(U.slice(degree + 1, U.length - degree - 1))];
+    for (const u of interior) {
+        while (U.filter(k => k === u).length < degree) {
+            const k = U.lastIndexOf(u);
+            const Q: Point[] = [];
+            for (let i = 0; i <= P.length; i++) {
+                if (i <= k - degree) Q.push(P[i]);
+                else if (i > k) Q.push(P[i - 1]);
+                else {
+                    const a = (u - U[i]) / (U[i + degree] - U[i]);
+                    Q.push({ x: (1 - a) * P[i - 1].x + a * P[i].x, y: (1 - a) * P[i - 1].y + a * P[i].y });
+                }
+            }
+            U = [...U.slice(0, k + 1), u, ...U.slice(k + 1)];
+            P = Q;
+        }
+    }
+    const pieces: Point[][] = [];
+    for (let i = 0; i + degree < P.length; i += degree) pieces.push(P.slice(i, i + degree + 1));
+    return pieces;
+};
+
+// Point on a (possibly rational) B-spline by de Boor's algorithm
+const splinePoint = (degree: number, knots: number[], controls: Point[], weights: number[], t: number): Point => {
+    let k = degree;
+    while (k < controls.length - 1 && knots[k + 1] <= t) k++;
+    const d = [];
+    for (let j = 0; j <= degree; j++) {
+        const p = controls[k - degree + j];
+        const w = weights[k - degree + j] ?? 1;
+        d.push({ x: p.x * w, y: p.y * w, w });
+    }
+    for (let r = 1; r <= degree; r++) {
+        for (let j = degree; j >= r; j--) {
+            const i = k - degree + j;
+            const den = knots[i + degree - r + 1] - knots[i];
+            const a = den === 0 ? 0 : (t - knots[i]) / den;
+            d[j] = { x: (1 - a) * d[j - 1].x + a * d[j].x, y: (1 - a) * d[j - 1].y + a * d[j].y, w: (1 - a) * d[j - 1].w + a * d[j].w };
+        }
+    }
+    return { x: d[degree].x / d[degree].w, y: d[degree].y / d[degree].w };
+};
+
+const splineShape = (e: DxfEntity, m: Matrix): Shape | null => {
+    const degree = num(e, 71, 3);
+    const closed = (num(e, 70) & 1) === 1;
+    const knots: number[] = [];
+    const weights: number[] = [];
+    const controls: Point[] = [];
+    const fits: Point[] = [];
+    for (const [code, v] of e.codes) {
+        if (code === 40) knots.push(parseFloat(v));
+        else if (code === 41) weights.push(parseFloat(v));
+        else if (code === 10) controls.push({ x: parseFloat(v), y: 0 });
+        else if (code === 20 && controls.length) controls[controls.length - 1].y = parseFloat(v);
+        else if (code === 11) fits.push({ x: parseFloat(v), y: 0 });
+        else if (code === 21 && fits.length) fits[fits.length - 1].y = parseFloat(v);
+    }
+
+    // Splines saved with fit points only are followed through those points
+    if (controls.length < 2) {
+        const vertices = fits.map(p => ({ ...p, bulge: 0 }));
+        return polylineShape(vertices, closed, m);
+    }
+
+    const start = applyMatrix(m, controls[0]);
+    const segments: ToolpathSegment[] = [];
+    const rational = weights.some(w => Math.abs(w - 1) > 1e-9);
+    const pieces = !rational && degree >= 1 && degree <= 3 ? splineToBeziers(degree, knots, controls) : null;
+    if (pieces) {
+        for (const piece of pieces) {
+            const transformed = piece.map(p => applyMatrix(m, p));
+            segments.push(...(degree === 1
+                ? [{ type: 'LINE' as const, x: transformed[1].x, y: transformed[1].y }]
+                : bezierToSegments(transformed)));
+        }
+        return contoursToPathShape([{ start, segments, closed }]);
+    }
+
+    // Rational, unclamped or high-degree splines are sampled instead
+    if (knots.length !== controls.length + degree + 1) return null;
+    const t0 = knots[degree], t1 = knots[controls.length];
+    const steps = Math.max(16, (controls.length - degree) * 32);
+    const points = Array.from({ length: steps + 1 }, (_, s) => applyMatrix(m, splinePoint(degree, knots, controls, weights, t0 + (t1 - t0) * s / steps)));
+    return contoursToPathShape([{
+        start: points[0],
+        segments: points.slice(1).map(p => ({ type: 'LINE' as const, x: p.x, y: p.y })),
+        closed
+    }]);
+};
+
+const convertEntity = (e: DxfEntity, m: Matrix): Shape | null => {
+    switch (e.type) {
+        case 'LINE': {
+            const a = applyMatrix(m, { x: num(e, 10), y: num(e, 20) });
+            const b = applyMatrix(m, { x: num(e, 11), y: num(e, 21) });
+            return { id: uuidv4(), type: ShapeType.LINE, x: a.x, y: a.y, x2: b.x, y2: b.y } as LineShape;
+        }
+        case 'CIRCLE': {
+            const om = multiplyMatrix(m, ocsMatrix(e));
+            const center = { x: num(e, 10), y: num(e, 20) };
+            const r = num(e, 40);
+            if (r <= 0) return null;
+            if (isSimilarity(om)) {
+                const c = applyMatrix(om, center);
+                return { id: uuidv4(), type: ShapeType.CIRCLE, x: c.x, y: c.y, radius: r * matrixScale(om) } as CircleShape;
+            }
+            return contoursToPathShape([ellipseContour(center, r, r, 0, 0, Math.PI * 2, om)]);
+        }
+        case 'ARC': {
+            const om = multiplyMatrix(m, ocsMatrix(e));
+            const r = num(e, 40);
+            if (r <= 0) return null;
+            const start = num(e, 50) * Math.PI / 180;
+            const sweep = normalizeSweep(num(e, 51, 360) * Math.PI / 180 - start);
+            const contour = ellipseContour({ x: num(e, 10), y: num(e, 20) }, r, r, 0, start, sweep, om);
+            return contoursToPathShape([contour]);
+        }
+        case 'ELLIPSE': {
+            const major = { x: num(e, 11), y: num(e, 21) };
+            const rx = Math.hypot(major.x, major.y);
+            if (rx <= 0) return null;
+            const start = num(e, 41);
+            const sweep = normalizeSweep(num(e, 42, Math.PI * 2) - start);
+            const contour = ellipseContour({ x: num(e, 10), y: num(e, 20) }, rx, rx * num(e, 40, 1), Math.atan2(major.y, major.x), start, sweep, m);
+            return contoursToPathShape([contour]);
+        }
+        case 'LWPOLYLINE':
+            return polylineShape(lwpolylineVertices(e), (num(e, 70) & 1) === 1, multiplyMatrix(m, ocsMatrix(e)));
+        case 'POLYLINE': {
+            // Polygon meshes and polyface meshes are not outlines
+            if (num(e, 70) & (16 | 64)) return null;
+            const vertices = (e.vertices || []).map(v => ({ x: num(v, 10), y: num(v, 20), bulge: num(v, 42) }));
+            return polylineShape(vertices, (num(e, 70) & 1) === 1, multiplyMatrix(m, ocsMatrix(e)));
+        }
+        case 'SPLINE':
+            return splineShape(e, m);
+        default:
+            return null;
+    }
+};
+
+// Placement of a block for one INSERT, including its place in a MINSERT array
+const insertMatrix = (e: DxfEntity, base: Point, column: number, row: number): Matrix => {
+    const angle = num(e, 50) * Math.PI / 180;
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    const place: Matrix = [cos, sin, -sin, cos, num(e, 10), num(e, 20)];
+    const cell: Matrix = [1, 0, 0, 1, column * num(e, 44), row * num(e, 45)];
+    const scale: Matrix = [num(e, 41, 1), 0, 0, num(e, 42, 1), 0, 0];
+    return multiplyMatrix(multiplyMatrix(multiplyMatrix(ocsMatrix(e), place), multiplyMatrix(cell, scale)), [1, 0, 0, 1, -base.x, -base.y]);
+};
+
+// Converts a DXF drawing into shapes in millimetres, one group per layer.
+// DXF's Y axis points up, so drawings are flipped to sit on the canvas with
+// the drawing origin at the bottom-left corner of a canvas `height` tall.
+export const parseDxfToShapes = (text: string, height: number): Shape[] => {
+    const drawing = readDrawing(text);
+    const layers = new Map<string, Shape[]>();
+
+    const walk = (entities: DxfEntity[], m: Matrix, inheritedLayer: string | null, depth: number) => {
+        for (const e of entities) {
+            // Entities on layer 0 inside a block take the layer of the insert
+            const layer = layerOf(e) === '0' && inheritedLayer !== null ? inheritedLayer : layerOf(e);
+            if (drawing.hiddenLayers.has(layer)) continue;
+
+            if (e.type === 'INSERT') {
+                const block = drawing.blocks[value(e, 2) ?? ''];
+                if (!block || depth >= MAX_INSERT_DEPTH) continue;
+                for (let column = 0; column < Math.max(1, num(e, 70, 1)); column++) {
+                    for (let row = 0; row < Math.max(1, num(e, 71, 1)); row++) {
+                        walk(block.entities, multiplyMatrix(m, insertMatrix(e, block.base, column, row)), layer, depth + 1);
+                    }
+                }
+                continue;
+            }
+            const shape = convertEntity(e, m);
+            if (!shape) continue;
+            if (!layers.has(layer)) layers.set(layer, []);
+            layers.get(layer)!.push(shape);
+        }
+    };
+    const k = drawing.units;
+    walk(drawing.entities, [k, 0, 0, -k, 0, height], null, 0);
+
+    return [...layers.entries()].map(([name, children]) => ({
+        id: uuidv4(), type: ShapeType.GROUP, x: 0, y: 0, name, children
+    } as GroupShape));
+};
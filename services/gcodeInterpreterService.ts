@@ -0,0 +1,380 @@
+// G-code interpreter shared by the simulator, the bounds calculation and the
+// job streamer. Text is read block by block into typed motions while the
+// modal state (distance mode, units, plane, work offsets, feed, spindle) is
+// carried along the way GRBL 1.1 does it.
+
+export type Vec3 = { x: number, y: number, z: number };
+
+export type Plane = 'G17' | 'G18' | 'G19';
+export type WorkCoordinateSystem = 'G54' | 'G55' | 'G56' | 'G57' | 'G58' | 'G59';
+export type MotionMode = 'G0' | 'G1' | 'G2' | 'G3' | 'G38.2' | 'G38.3' | 'G38.4' | 'G38.5' | 'G80';
+
+export const WORK_COORDINATE_SYSTEMS: WorkCoordinateSystem[] = ['G54', 'G55', 'G56', 'G57', 'G58', 'G59'];
+
+export interface ModalState {
+    motion: MotionMode;
+    plane: Plane;
+    distance: 'G90' | 'G91';
+    arcDistance: 'G90.1' | 'G91.1'; // How I, J and K are read; GRBL only supports incremental
+    units: 'G20' | 'G21';
+    feedMode: 'G93' | 'G94';
+    coordinateSystem: WorkCoordinateSystem;
+    spindle: 'M3' | 'M4' | 'M5';
+    mist: boolean;  // M7
+    flood: boolean; // M8
+    feed: number;   // mm/min, or in G93 the last F word (1/minutes)
+    spindleSpeed: number;
+    tool: number;
+    position: Vec3; // Machine coordinates, mm
+    offsets: Record<WorkCoordinateSystem, Vec3>; // Set with G10 L2/L20, mm
+    g92Offset: Vec3;
+    toolLengthOffset: number; // G43.1 Z, mm
+    g28Position: Vec3; // Stored with G28.1, machine coordinates
+    g30Position: Vec3; // Stored with G30.1
+}
+
+export type MotionType = 'rapid' | 'linear' | 'arc' | 'probe' | 'dwell';
+
+export interface Motion {
+    type: MotionType;
+    lineIndex: number; // 0-based line in the source text
+    start: Vec3;       // Machine coordinates, mm
+    end: Vec3;
+    feed: number;      // mm/min; 0 for rapids, whose speed is the machine's
+    // Arcs: centre in the arc plane (the linear axis keeps the start value)
+    center?: Vec3;
+    clockwise?: boolean;
+    plane?: Plane;
+    duration?: number; // Dwell, seconds
+    state: ModalState; // Modal state after the block
+}
+
+export interface InterpreterError {
+    lineIndex: number;
+    message: string;
+}
+
+export interface BlockResult {
+    state: ModalState;
+    motions: Motion[];
+    error?: string;
+}
+
+const ZERO: Vec3 = { x: 0, y: 0, z: 0 };
+const MM_PER_INCH = 25.4;
+const ARC_ANGULAR_TRAVEL_EPSILON = 5e-7;
+
+export const createModalState = (): ModalState => ({
+    motion: 'G0',
+    plane: 'G17',
+    distance: 'G90',
+    arcDistance: 'G91.1',
+    units: 'G21',
+    feedMode: 'G94',
+    coordinateSystem: 'G54',
+    spindle: 'M5',
+    mist: false,
+    flood: false,
+    feed: 0,
+    spindleSpeed: 0,
+    tool: 0,
+    position: { ...ZERO },
+    offsets: { G54: ZERO, G55: ZERO, G56: ZERO, G57: ZERO, G58: ZERO, G59: ZERO },
+    g92Offset: ZERO,
+    toolLengthOffset: 0,
+    g28Position: ZERO,
+    g30Position: ZERO,
+});
+
+// Removes ( ) and ; comments and the surrounding whitespace
+export const stripComments = (line: string): string =>
+    line.replace(/\([^)]*\)?/g, '').replace(/;.*$/, '').trim();
+
+export interface Word {
+    letter: string;
+    value: number;
+}
+
+export const parseWords = (line: string): Word[] => {
+    const words: Word[] = [];
+    const text = stripComments(line).replace(/\s+/g, '').toUpperCase();
+    const re = /([A-Z])([-+]?(?:\d+\.?\d*|\.\d+))/g;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(text))) {
+        words.push({ letter: match[1], value: parseFloat(match[2]) });
+    }
+    return words;
+};
+
+// The lines of a program worth sending to the controller, without comments
+// and blank lines, each with its 0-based line in the source text
+export const programLines = (gcode: string): { lineIndex: number, text: string }[] =>
+    gcode.split('\n')
+        .map((line, lineIndex) => ({ lineIndex, text: stripComments(line) }))
+        .filter(line => line.text.length > 0);
+
+// Axis pairs of each plane, in the order that decides which way G2 turns,
+// followed by the linear axis and the offset letters of the plane
+const PLANE_AXES: Record<Plane, { a: keyof Vec3, b: keyof Vec3, linear: keyof Vec3, ia: string, ib: string }> = {
+    G17: { a: 'x', b: 'y', linear: 'z', ia: 'I', ib: 'J' },
+    G18: { a: 'z', b: 'x', linear: 'y', ia: 'K', ib: 'I' },
+    G19: { a: 'y', b: 'z', linear: 'x', ia: 'J', ib: 'K' },
+};
+
+const AXES: (keyof Vec3)[] = ['x', 'y', 'z'];
+
+// Current position in the coordinates a program would use
+export const workPosition = (state: ModalState): Vec3 => {
+    const offset = state.offsets[state.coordinateSystem];
+    return {
+        x: state.position.x - offset.x - state.g92Offset.x,
+        y: state.position.y - offset.y - state.g92Offset.y,
+        z: state.position.z - offset.z - state.g92Offset.z - state.toolLengthOffset,
+    };
+};
+
+// Signed sweep of an arc around `center` (negative = clockwise), a full turn
+// when it ends where it starts
+const arcSweep = (m: Motion): number => {
+    const { a, b } = PLANE_AXES[m.plane!];
+    const c = m.center!;
+    const a0 = Math.atan2(m.start[b] - c[b], m.start[a] - c[a]);
+    const a1 = Math.atan2(m.end[b] - c[b], m.end[a] - c[a]);
+    let sweep = a1 - a0;
+    if (m.clockwise) {
+        if (sweep >= -ARC_ANGULAR_TRAVEL_EPSILON) sweep -= 2 * Math.PI;
+    } else if (sweep <= ARC_ANGULAR_TRAVEL_EPSILON) {
+        sweep += 2 * Math.PI;
+    }
+    return sweep;
+};
+
+export const motionLength = (m: Motion): number => {
+    if (m.type === 'dwell') return 0;
+    if (m.type !== 'arc') return Math.hypot(m.end.x - m.start.x, m.end.y - m.start.y, m.end.z - m.start.z);
+    const { a, b, linear } = PLANE_AXES[m.plane!];
+    const r = Math.hypot(m.start[a] - m.center![a], m.start[b] - m.center![b]);
+    return Math.hypot(Math.abs(arcSweep(m)) * r, m.end[linear] - m.start[linear]);
+};
+
+// Points along a motion after its start, arcs split into chords of about
+// `segmentLength` (at least 6 per arc)
+export const motionPoints = (m: Motion, segmentLength: number = 0.5): Vec3[] => {
+    if (m.type !== 'arc') return [m.end];
+    const { a, b, linear } = PLANE_AXES[m.plane!];
+    const c = m.center!;
+    const r = Math.hypot(m.start[a] - c[a], m.start[b] - c[b]);
+    const a0 = Math.atan2(m.start[b] - c[b], m.start[a] - c[a]);
+    const sweep = arcSweep(m);
+    const count = Math.max(6, Math.ceil(Math.abs(sweep) * r / segmentLength));
+    const points: Vec3[] = [];
+    for (let k = 1; k < count; k++) {
+        const t = k / count;
+        const angle = a0 + sweep * t;
+        const p = { ...m.start };
+        p[a] = c[a] + r * Math.cos(angle);
+        p[b] = c[b] + r * Math.sin(angle);
+        p[linear] = m.start[linear] + (m.end[linear] - m.start[linear]) * t;
+        points.push(p);
+    }
+    points.push(m.end);
+    return points;
+};
+
+// Centre offset, from the start, of an arc given by its radius (GRBL's method).
+// A negative radius picks the arc longer than a half turn.
+const radiusCenter = (da: number, db: number, radius: number, clockwise: boolean): { ia: number, ib: number } | null => {
+    const chord = Math.hypot(da, db);
+    const h2 = 4 * radius * radius - da * da - db * db;
+    if (chord === 0 || h2 < -1e-9) return null;
+    let h = -Math.sqrt(Math.max(0, h2)) / chord;
+    if (!clockwise) h = -h;
+    if (radius < 0) h = -h;
+    return { ia: 0.5 * (da - db * h), ib: 0.5 * (db + da * h) };
+};
+
+// Executes one line. The returned state is a new object whenever anything
+// changed, so motions can keep a reference to the state they ran in.
+export const executeBlock = (prev: ModalState, line: string, lineIndex: number): BlockResult => {
+    const words = parseWords(line);
+    if (words.length === 0) return { state: prev, motions: [] };
+
+    const state: ModalState = { ...prev };
+    const motions: Motion[] = [];
+    const values = new Map<string, number>();
+    const gCodes: number[] = [];
+    const mCodes: number[] = [];
+    words.forEach(w => {
+        if (w.letter === 'G') gCodes.push(w.value);
+        else if (w.letter === 'M') mCodes.push(w.value);
+        else values.set(w.letter, w.value);
+    });
+    const has = (g: number) => gCodes.some(v => Math.abs(v - g) < 1e-6);
+
+    // Units apply to every number in the block they are set in
+    if (has(20)) state.units = 'G20';
+    if (has(21)) state.units = 'G21';
+    const scale = state.units === 'G20' ? MM_PER_INCH : 1;
+
+    if (has(93)) state.feedMode = 'G93';
+    if (has(94)) state.feedMode = 'G94';
+    if (values.has('F')) state.feed = state.feedMode === 'G93' ? values.get('F')! : values.get('F')! * scale;
+    if (values.has('S')) state.spindleSpeed = values.get('S')!;
+    if (values.has('T')) state.tool = values.get('T')!;
+
+    mCodes.forEach(m => {
+        if (m === 3) state.spindle = 'M3';
+        else if (m === 4) state.spindle = 'M4';
+        else if (m === 5) state.spindle = 'M5';
+        else if (m === 7) state.mist = true;
+        else if (m === 8) state.flood = true;
+        else if (m === 9) { state.mist = false; state.flood = false; }
+    });
+
+    if (has(4)) {
+        motions.push({ type: 'dwell', lineIndex, start: state.position, end: state.position, feed: 0, duration: values.get('P') || 0, state });
+    }
+
+    if (has(17)) state.plane = 'G17';
+    if (has(18)) state.plane = 'G18';
+    if (has(19)) state.plane = 'G19';
+    if (has(90)) state.distance = 'G90';
+    if (has(91)) state.distance = 'G91';
+    if (has(90.1)) state.arcDistance = 'G90.1';
+    if (has(91.1)) state.arcDistance = 'G91.1';
+    WORK_COORDINATE_SYSTEMS.forEach((wcs, i) => { if (has(54 + i)) state.coordinateSystem = wcs; });
+    if (has(43.1)) state.toolLengthOffset = (values.get('Z') || 0) * scale;
+    if (has(49)) state.toolLengthOffset = 0;
+
+    for (const mode of ['G0', 'G1', 'G2', 'G3', 'G38.2', 'G38.3', 'G38.4', 'G38.5', 'G80'] as MotionMode[]) {
+        if (has(parseFloat(mode.slice(1)))) state.motion = mode;
+    }
+
+    const axisWords = AXES.filter(axis => values.has(axis.toUpperCase()));
+    const axisValue = (axis: keyof Vec3) => values.get(axis.toUpperCase())! * scale;
+    const machineOffset = (axis: keyof Vec3) =>
+        state.offsets[state.coordinateSystem][axis] + state.g92Offset[axis] + (axis === 'z' ? state.toolLengthOffset : 0);
+    // Target of the block's axis words in machine coordinates
+    const target = (machine: boolean): Vec3 => {
+        const p = { ...state.position };
+        axisWords.forEach(axis => {
+            if (machine) p[axis] = axisValue(axis);
+            else if (state.distance === 'G91') p[axis] = state.position[axis] + axisValue(axis);
+            else p[axis] = axisValue(axis) + machineOffset(axis);
+        });
+        return p;
+    };
+    const rapid = (end: Vec3) => {
+        motions.push({ type: 'rapid', lineIndex, start: state.position, end, feed: 0, state });
+        state.position = end;
+    };
+
+    let error: string | undefined;
+    let axesUsed = false;
+
+    // Non-modal commands that take the axis words for themselves
+    if (has(10)) {
+        axesUsed = true;
+        const l = values.get('L');
+        const p = Math.round(values.get('P') || 0);
+        const wcs = p === 0 ? state.coordinateSystem : WORK_COORDINATE_SYSTEMS[p - 1];
+        if (!wcs || (l !== 2 && l !== 20)) {
+            error = 'Unsupported G10 command';
+        } else {
+            const offset = { ...state.offsets[wcs] };
+            axisWords.forEach(axis => {
+                offset[axis] = l === 2
+                    ? axisValue(axis)
+                    : state.position[axis] - state.g92Offset[axis] - (axis === 'z' ? state.toolLengthOffset : 0) - axisValue(axis);
+            });
+            state.offsets = { ...state.offsets, [wcs]: offset };
+        }
+    } else if (has(28) || has(30)) {
+        axesUsed = true;
+        if (axisWords.length > 0) rapid(target(false));
+        rapid({ ...(has(28) ? state.g28Position : state.g30Position) });
+    } else if (has(28.1)) {
+        state.g28Position = { ...state.position };
+    } else if (has(30.1)) {
+        state.g30Position = { ...state.position };
+    } else if (has(92)) {
+        axesUsed = true;
+        const g92 = { ...state.g92Offset };
+        axisWords.forEach(axis => {
+            g92[axis] = state.position[axis] - state.offsets[state.coordinateSystem][axis] - (axis === 'z' ? state.toolLengthOffset : 0) - axisValue(axis);
+        });
+        state.g92Offset = g92;
+    } else if (has(92.1)) {
+        state.g92Offset = ZERO;
+    }
+
+    if (!axesUsed && axisWords.length > 0 && state.motion !== 'G80') {
+        const end = target(has(53));
+        const feedFor = (length: number) => state.feedMode === 'G93' ? state.feed * length : state.feed;
+        if (state.motion === 'G0') {
+            rapid(end);
+        } else if (state.motion === 'G2' || state.motion === 'G3') {
+            const clockwise = state.motion === 'G2';
+            const { a, b, ia, ib } = PLANE_AXES[state.plane];
+            let offA: number, offB: number;
+            if (values.has('R')) {
+                const found = radiusCenter(end[a] - state.position[a], end[b] - state.position[b], values.get('R')! * scale, clockwise);
+                if (!found) error = 'Arc radius too small to reach the end point';
+                offA = found?.ia ?? 0;
+                offB = found?.ib ?? 0;
+            } else if (state.arcDistance === 'G90.1') {
+                offA = (values.has(ia) ? values.get(ia)! * scale + machineOffset(a) : state.position[a]) - state.position[a];
+                offB = (values.has(ib) ? values.get(ib)! * scale + machineOffset(b) : state.position[b]) - state.position[b];
+            } else {
+                offA = (values.get(ia) || 0) * scale;
+                offB = (values.get(ib) || 0) * scale;
+            }
+            if (!error) {
+                const center = { ...state.position };
+                center[a] += offA;
+                center[b] += offB;
+                const arc: Motion = { type: 'arc', lineIndex, start: state.position, end, feed: state.feed, center, clockwise, plane: state.plane, state };
+                arc.feed = feedFor(motionLength(arc));
+                motions.push(arc);
+                state.position = end;
+            }
+        } else {
+            const length = Math.hypot(end.x - state.position.x, end.y - state.position.y, end.z - state.position.z);
+            motions.push({ type: state.motion === 'G1' ? 'linear' : 'probe', lineIndex, start: state.position, end, feed: feedFor(length), state });
+            state.position = end;
+        }
+    }
+
+    // Program end restores the defaults of the modes a program may change
+    if (mCodes.includes(2) || mCodes.includes(30)) {
+        Object.assign(state, {
+            motion: 'G1', plane: 'G17', distance: 'G90', feedMode: 'G94',
+            coordinateSystem: 'G54', spindle: 'M5', mist: false, flood: false,
+        });
+        state.g92Offset = ZERO;
+    }
+
+    return { state, motions, error };
+};
+
+export interface InterpretedProgram {
+    motions: Motion[];
+    state: ModalState; // At the end of the program
+    errors: InterpreterError[];
+}
+
+// Runs the whole program, or the lines before `untilLine` (0-based)
+export const interpretGCode = (gcode: string, untilLine?: number, initial: ModalState = createModalState()): InterpretedProgram => {
+    const lines = gcode.split('\n');
+    const end = untilLine === undefined ? lines.length : Math.min(untilLine, lines.length);
+    const motions: Motion[] = [];
+    const errors: InterpreterError[] = [];
+    let state = initial;
+    for (let i = 0; i < end; i++) {
+        const result = executeBlock(state, lines[i], i);
+        state = result.state;
+        motions.push(...result.motions);
+        if (result.error) errors.push({ lineIndex: i, message: result.error });
+    }
+    return { motions, state, errors };
+};
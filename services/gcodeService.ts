@@ -1,6 +1,9 @@
 
-import { Shape, ShapeType, MachineSettings, LineShape, PolylineShape, HeartShape, TextShape, MirrorMode, RectangleShape, GroupShape, CircleShape } from '../types';
+import { Shape, ShapeType, MachineSettings, Operation, ToolLibrary, CuttingTool, ToolType, ToolChangeMode, LineShape, PolylineShape, PathShape, ImageShape, HeartShape, TextShape, MirrorMode, RectangleShape, GroupShape, CircleShape, Contour, ToolpathSegment, ProfileMode, PocketStrategy, TabSettings, EntryMode } from '../types';
 import opentype from 'opentype.js';
+import { findTool } from './toolLibraryService';
+import { rasterLines, RasterLine } from './rasterService';
+import { compensateContours, pocketContours, pocketLinkTest, contourLength, segmentLength, pointAtLength, splitContour, tabFractions, tabRanges, addLeads, reverseContour, bezierToSegments, translateContour, orderJobs, travelDistance, jobExit, PathJob } from './toolpathService';
 
 // Cache for loaded fonts
 const fontCache: Record<string, opentype.Font> = {};
@@ -40,277 +43,661 @@ export async function loadFont(fontFamily: string): Promise<opentype.Font | null
     }
 }
 
-export const generateGCode = async (shapes: Shape[], settings: MachineSettings): Promise<string> => {
-    const { feedRate, safeHeight, cutDepth } = settings;
-    const lines: string[] = [];
-    lines.push('; Generated by CNC Forge AI');
-    lines.push('G21 G90');
-    lines.push(`G0 Z${safeHeight}`);
-    lines.push('M3 S1000');
-    lines.push('');
+export const DEFAULT_SETTINGS: MachineSettings = {
+    feedRate: 800,
+    plungeRate: 400,
+    safeHeight: 5,
+    cutDepth: 2,
+    stepDown: 1,
+    finishPassDepth: 0,
+    stepover: 40,
+    rampAngle: 3,
+    leadRadius: 0,
+    spindleSpeed: 1000,
+    toolDiameter: 3.175
+};
 
-    // Track current tool position
-    let currentX = 0;
-    let currentY = 0;
-    let currentZ = safeHeight;
+const describeShape = (shape: Shape) => shape.name || `${shape.type.charAt(0) + shape.type.slice(1).toLowerCase()} ${shape.id.slice(0, 4)}`;
+
+// Depths (positive, increasing) of every pass needed to reach cutDepth.
+// Roughing passes are spread evenly so none exceeds stepDown, then the
+// optional finishing pass takes the last finishPassDepth.
+export const getPassDepths = (settings: MachineSettings): number[] => {
+    const { cutDepth } = settings;
+    const stepDown = settings.stepDown || 0;
+    const finish = settings.finishPassDepth > 0 && settings.finishPassDepth < cutDepth ? settings.finishPassDepth : 0;
+    const roughDepth = cutDepth - finish;
+
+    const passes = stepDown > 0 ? Math.max(1, Math.ceil(roughDepth / stepDown - 1e-6)) : 1;
+    const depths: number[] = [];
+    for (let i = 1; i <= passes; i++) {
+        depths.push(roughDepth * i / passes);
+    }
+    if (finish > 0) depths.push(cutDepth);
+    return depths;
+};
 
-    const smartMoveToStart = (x: number, y: number) => {
-        const dist = Math.hypot(x - currentX, y - currentY);
-        // If we are very close to the start point and already at cut depth, just continue
-        if (dist < 0.01 && Math.abs(currentZ - (-cutDepth)) < 0.01) {
-            return;
+// Converts opentype path commands into contours, fitting curves with lines and arcs.
+// mx mirrors X coordinates for mirrored text.
+const pathCommandsToContours = (commands: opentype.PathCommand[], mx: (x: number) => number): Contour[] => {
+    const contours: Contour[] = [];
+    let current: Contour | null = null;
+    let lastX = 0, lastY = 0, startX = 0, startY = 0;
+
+    for (const cmd of commands) {
+        if (cmd.type === 'M') {
+            current = { start: { x: mx(cmd.x), y: cmd.y }, segments: [], closed: false };
+            contours.push(current);
+            lastX = cmd.x; lastY = cmd.y; startX = cmd.x; startY = cmd.y;
+        } else if (!current) {
+            continue;
+        } else if (cmd.type === 'L') {
+            current.segments.push({ type: 'LINE', x: mx(cmd.x), y: cmd.y });
+            lastX = cmd.x; lastY = cmd.y;
+        } else if (cmd.type === 'Z') {
+            if (Math.hypot(lastX - startX, lastY - startY) > 0.001) {
+                current.segments.push({ type: 'LINE', x: mx(startX), y: startY });
+            }
+            current.closed = true;
+            lastX = startX; lastY = startY;
+        } else if (cmd.type === 'Q' || cmd.type === 'C') {
+            // Mirroring is affine, so mirrored control points give the mirrored curve
+            const controls = cmd.type === 'Q'
+                ? [{ x: lastX, y: lastY }, { x: cmd.x1, y: cmd.y1 }, { x: cmd.x, y: cmd.y }]
+                : [{ x: lastX, y: lastY }, { x: cmd.x1, y: cmd.y1 }, { x: cmd.x2, y: cmd.y2 }, { x: cmd.x, y: cmd.y }];
+            current.segments.push(...bezierToSegments(controls.map(p => ({ x: mx(p.x), y: p.y }))));
+            lastX = cmd.x; lastY = cmd.y;
         }
+    }
+    return contours.filter(c => c.segments.length > 0);
+};
 
-        // If we are not at safe height and need to move to a new start, retract first
-        if (currentZ < safeHeight) {
-            lines.push(`G0 Z${safeHeight}`);
-            currentZ = safeHeight;
+// Builds the cutting contours (centerline) of a single non-group shape.
+// offsetX/offsetY are the accumulated positions of parent groups.
+export const shapeToContours = async (shape: Shape, offsetX: number = 0, offsetY: number = 0): Promise<Contour[]> => {
+    const x = shape.x + offsetX;
+    const y = shape.y + offsetY;
+
+    switch (shape.type) {
+        case ShapeType.RECTANGLE: {
+            const r = shape as RectangleShape;
+            const w = r.width;
+            const h = r.height;
+            const cr = r.cornerRadius || 0;
+
+            if (cr > 0) {
+                return [{
+                    start: { x: x + cr, y },
+                    closed: true,
+                    segments: [
+                        { type: 'LINE', x: x + w - cr, y },
+                        { type: 'ARC', x: x + w, y: y + cr, i: 0, j: cr, clockwise: false },
+                        { type: 'LINE', x: x + w, y: y + h - cr },
+                        { type: 'ARC', x: x + w - cr, y: y + h, i: -cr, j: 0, clockwise: false },
+                        { type: 'LINE', x: x + cr, y: y + h },
+                        { type: 'ARC', x, y: y + h - cr, i: 0, j: -cr, clockwise: false },
+                        { type: 'LINE', x, y: y + cr },
+                        { type: 'ARC', x: x + cr, y, i: cr, j: 0, clockwise: false },
+                    ]
+                }];
+            }
+            return [{
+                start: { x, y },
+                closed: true,
+                segments: [
+                    { type: 'LINE', x: x + w, y },
+                    { type: 'LINE', x: x + w, y: y + h },
+                    { type: 'LINE', x, y: y + h },
+                    { type: 'LINE', x, y },
+                ]
+            }];
         }
 
-        // Move to X,Y
-        lines.push(`G0 X${x.toFixed(3)} Y${y.toFixed(3)}`);
-        currentX = x;
-        currentY = y;
+        case ShapeType.CIRCLE: {
+            const c = shape as CircleShape;
+            return [{
+                start: { x: x + c.radius, y },
+                closed: true,
+                segments: [{ type: 'ARC', x: x + c.radius, y, i: -c.radius, j: 0, clockwise: true }]
+            }];
+        }
 
-        // Plunge
-        lines.push(`G1 Z${-cutDepth} F${feedRate / 2}`);
-        currentZ = -cutDepth;
-    };
+        case ShapeType.LINE: {
+            const l = shape as LineShape;
+            return [{
+                start: { x, y },
+                closed: false,
+                segments: [{ type: 'LINE', x: l.x2 + offsetX, y: l.y2 + offsetY }]
+            }];
+        }
+
+        case ShapeType.POLYLINE: {
+            const p = shape as PolylineShape;
+            if (p.points.length < 2) return [];
+            const first = p.points[0];
+            const last = p.points[p.points.length - 1];
+            return [{
+                start: { x: first.x + x, y: first.y + y },
+                closed: Math.hypot(last.x - first.x, last.y - first.y) < 0.01,
+                segments: p.points.slice(1).map(pt => ({ type: 'LINE' as const, x: pt.x + x, y: pt.y + y }))
+            }];
+        }
+
+        case ShapeType.PATH:
+            return (shape as PathShape).contours.map(c => translateContour(c, x, y));
+
+        case ShapeType.HEART: {
+            const h = shape as HeartShape;
+            const steps = 40;
+            const segments: ToolpathSegment[] = [];
+            for (let i = 1; i <= steps; i++) {
+                const t = (i / steps) * 2 * Math.PI;
+                const pt = calculateHeartPoint(t, h, x, y);
+                segments.push({ type: 'LINE', x: pt.x, y: pt.y });
+            }
+            return [{ start: calculateHeartPoint(0, h, x, y), closed: true, segments }];
+        }
+
+        case ShapeType.TEXT: {
+            const textShape = shape as TextShape;
+            const fontToUse = await loadFont(textShape.fontFamily || 'Roboto Mono');
+
+            if (!fontToUse) {
+                console.warn("Could not load font for text generation.");
+                return [];
+            }
+
+            const mirrorMode = textShape.mirrorMode || (textShape.mirror ? MirrorMode.WHOLE : MirrorMode.NONE);
+
+            if (mirrorMode === MirrorMode.CHAR) {
+                const contours: Contour[] = [];
+                let cursorX = x;
+                for (const char of textShape.text) {
+                    const path = fontToUse.getPath(char, cursorX, y, textShape.fontSize);
+                    const bbox = path.getBoundingBox();
+                    const centerX = (bbox.x1 + bbox.x2) / 2;
+                    contours.push(...pathCommandsToContours(path.commands, val => centerX - (val - centerX)));
+
+                    const advance = fontToUse.getAdvanceWidth(char, textShape.fontSize);
+                    cursorX += advance + (textShape.letterSpacing || 0);
+                }
+                return contours;
+            }
+
+            const path = fontToUse.getPath(textShape.text, x, y, textShape.fontSize, { letterSpacing: textShape.letterSpacing });
+            return pathCommandsToContours(path.commands, val => mirrorMode === MirrorMode.WHOLE ? x - (val - x) : val);
+        }
+    }
+    return [];
+};
+
+interface MachinedShape {
+    shape: Shape;
+    offsetX: number;
+    offsetY: number;
+    operation: Operation;
+    label: string;
+    profile: ProfileMode;
+    pocketStrategy: PocketStrategy;
+    tabs?: TabSettings;
+    entry: EntryMode;
+}
+
+type InheritedParams = Omit<MachinedShape, 'shape' | 'offsetX' | 'offsetY'>;
+
+// Flattens groups into the shapes that get cut, each with the operation,
+// profile and tabs it inherits from its groups and the accumulated group offset.
+const collectMachinedShapes = (shapes: Shape[], defaultSettings: MachineSettings): MachinedShape[] => {
+    const result: MachinedShape[] = [];
+    const visit = (shape: Shape, offsetX: number, offsetY: number, inherited: InheritedParams) => {
+        const params: InheritedParams = {
+            operation: shape.operation || inherited.operation,
+            label: shape.operation ? describeShape(shape) : inherited.label,
+            profile: shape.profile || inherited.profile,
+            pocketStrategy: shape.pocketStrategy || inherited.pocketStrategy,
+            tabs: shape.tabs || inherited.tabs,
+            entry: shape.entry || inherited.entry,
+        };
 
-    const processShape = async (shape: Shape, offsetX: number = 0, offsetY: number = 0) => {
         if (shape.type === ShapeType.GROUP) {
             const g = shape as GroupShape;
             // Recursively process children with cumulative offset
-            for (const child of g.children) {
-                await processShape(child, offsetX + g.x, offsetY + g.y);
-            }
+            g.children.forEach(child => visit(child, offsetX + g.x, offsetY + g.y, params));
             return;
         }
+        result.push({ shape, offsetX, offsetY, ...params });
+    };
+    const defaults: InheritedParams = {
+        operation: { settings: defaultSettings },
+        label: 'Default',
+        profile: ProfileMode.ON,
+        pocketStrategy: PocketStrategy.OFFSET,
+        entry: EntryMode.PLUNGE,
+    };
+    shapes.forEach(shape => visit(shape, 0, 0, defaults));
+    return result;
+};
 
-        // Apply offset to coordinates
-        const x = shape.x + offsetX;
-        const y = shape.y + offsetY;
-
-        switch (shape.type) {
-            case ShapeType.RECTANGLE: {
-                const r = shape as RectangleShape;
-                const w = r.width;
-                const h = r.height;
-                const cr = r.cornerRadius || 0;
-
-                let startX = x;
-                let startY = y;
-                if (cr > 0) {
-                    startX = x + cr;
-                    startY = y;
-                }
+// Contours the tool follows for one shape: on the line, offset by the tool
+// radius, or clearing a pocket. The shape's own outline comes along for
+// deciding which side is waste.
+const shapeToolpath = async ({ shape, offsetX, offsetY, operation, profile, pocketStrategy }: MachinedShape): Promise<{ contours: Contour[], outline: Contour[] }> => {
+    const outline = await shapeToContours(shape, offsetX, offsetY);
+    const { toolDiameter, stepover } = operation.settings;
+    if (profile === ProfileMode.POCKET) {
+        return { contours: pocketContours(outline, toolDiameter, stepover || DEFAULT_SETTINGS.stepover, pocketStrategy), outline };
+    }
+    return { contours: compensateContours(outline, profile, toolDiameter), outline };
+};
 
-                smartMoveToStart(startX, startY);
-
-                if (cr > 0) {
-                    lines.push(`G1 X${(x + w - cr).toFixed(3)} Y${y.toFixed(3)} F${feedRate}`);
-                    lines.push(`G2 X${(x + w).toFixed(3)} Y${(y + cr).toFixed(3)} I0 J${cr.toFixed(3)}`);
-                    lines.push(`G1 X${(x + w).toFixed(3)} Y${(y + h - cr).toFixed(3)}`);
-                    lines.push(`G2 X${(x + w - cr).toFixed(3)} Y${(y + h).toFixed(3)} I-${cr.toFixed(3)} J0`);
-                    lines.push(`G1 X${(x + cr).toFixed(3)} Y${(y + h).toFixed(3)}`);
-                    lines.push(`G2 X${x.toFixed(3)} Y${(y + h - cr).toFixed(3)} I0 J-${cr.toFixed(3)}`);
-                    lines.push(`G1 X${x.toFixed(3)} Y${(y + cr).toFixed(3)}`);
-                    lines.push(`G2 X${(x + cr).toFixed(3)} Y${y.toFixed(3)} I${cr.toFixed(3)} J0`);
-                } else {
-                    lines.push(`G1 X${(x + w).toFixed(3)} Y${y.toFixed(3)} F${feedRate}`);
-                    lines.push(`G1 X${(x + w).toFixed(3)} Y${(y + h).toFixed(3)}`);
-                    lines.push(`G1 X${x.toFixed(3)} Y${(y + h).toFixed(3)}`);
-                    lines.push(`G1 X${x.toFixed(3)} Y${y.toFixed(3)}`);
-                }
+// Tabs apply to closed profile contours, never to pockets
+const activeTabs = ({ profile, tabs }: MachinedShape) =>
+    profile !== ProfileMode.POCKET && tabs && tabs.count > 0 ? tabs : undefined;
 
-                // Update current position to end point (which is same as start for closed loop)
-                currentX = startX;
-                currentY = startY;
-                break;
-            }
+export interface ToolpathPreview {
+    shapeId: string;
+    profile: ProfileMode;
+    contours: Contour[];
+    tabs?: TabSettings;
+    tabMarkers: { contourIndex: number, tabIndex: number, x: number, y: number }[];
+}
 
-            case ShapeType.CIRCLE: {
-                const c = shape as CircleShape;
-                const startX = x + c.radius;
-                const startY = y;
+// Toolpaths of every shape cut off its line or carrying tabs, for previewing on the canvas
+export const getToolpathPreviews = async (shapes: Shape[], defaultSettings: MachineSettings): Promise<ToolpathPreview[]> => {
+    const previews: ToolpathPreview[] = [];
+    for (const machined of collectMachinedShapes(shapes, defaultSettings)) {
+        const tabs = activeTabs(machined);
+        if ((machined.profile === ProfileMode.ON && !tabs) || machined.shape.type === ShapeType.IMAGE) continue;
+
+        const { contours } = await shapeToolpath(machined);
+        const markers: ToolpathPreview['tabMarkers'] = [];
+        if (tabs) {
+            contours.forEach((contour, contourIndex) => {
+                if (!contour.closed) return;
+                const length = contourLength(contour);
+                tabFractions(tabs).forEach((f, tabIndex) => {
+                    markers.push({ contourIndex, tabIndex, ...pointAtLength(contour, f * length) });
+                });
+            });
+        }
+        previews.push({ shapeId: machined.shape.id, profile: machined.profile, contours, tabs, tabMarkers: markers });
+    }
+    return previews;
+};
 
-                smartMoveToStart(startX, startY);
+// Toolpath of one shape, or one contour of it, to be placed in the cutting order
+interface CutJob extends PathJob {
+    machined: MachinedShape;
+    outline: Contour[];
+    tabs?: TabSettings;
+    raster?: RasterLine[]; // Scan lines of an image, engraved instead of the contours
+}
 
-                lines.push(`G2 X${(x + c.radius).toFixed(3)} Y${y.toFixed(3)} I-${c.radius.toFixed(3)} J0 F${feedRate}`);
+// With a tool library, operations that name a different cutter than the one
+// in the spindle get a tool change: T<n> M6, or a pause (M0) for changing by hand.
+export const generateGCode = async (shapes: Shape[], defaultSettings: MachineSettings, library?: ToolLibrary): Promise<string> => {
+    const lines: string[] = [];
+    lines.push('; Generated by CNC Forge AI');
+    lines.push('G21 G90');
 
-                currentX = startX;
-                currentY = startY;
-                break;
-            }
+    // Active machining parameters, switched per operation
+    let settings = defaultSettings;
+    let activeOperation: Operation | null = null;
+    let activeSpindleSpeed: number | null = null;
+    let spindleMode: 'M3' | 'M4' | null = null;
+    let activeTool: CuttingTool | null = null;
 
-            case ShapeType.LINE: {
-                const l = shape as LineShape;
-                smartMoveToStart(x, y);
+    // Track current tool position and modal feed
+    let currentX = 0;
+    let currentY = 0;
+    let currentZ = defaultSettings.safeHeight;
+    let currentFeed: number | null = null;
+    let currentPower: number | null = null;
+
+    const feedWord = (feed: number) => {
+        if (feed === currentFeed) return '';
+        currentFeed = feed;
+        return ` F${feed}`;
+    };
 
-                const endX = l.x2 + offsetX;
-                const endY = l.y2 + offsetY;
+    // Laser power is modal like the feed; GRBL's laser mode ($32=1) keeps the
+    // beam off during G0 whatever S is
+    const powerWord = (power: number) => {
+        if (!activeOperation?.laser || power === currentPower) return '';
+        currentPower = power;
+        return ` S${power}`;
+    };
 
-                lines.push(`G1 X${endX.toFixed(3)} Y${endY.toFixed(3)} F${feedRate}`);
+    const retract = () => {
+        if (currentZ < settings.safeHeight) {
+            lines.push(`G0 Z${settings.safeHeight}`);
+            currentZ = settings.safeHeight;
+        }
+    };
 
-                currentX = endX;
-                currentY = endY;
-                break;
+    const beginOperation = (operation: Operation, label: string) => {
+        if (operation === activeOperation) return;
+
+        // Never change spindle speed with the tool in the material
+        retract();
+
+        activeOperation = operation;
+        settings = operation.settings;
+
+        const tool = library ? findTool(library, operation.toolId) : undefined;
+        if (library && tool && tool.id !== activeTool?.id) {
+            if (spindleMode !== null) lines.push('M5');
+            activeSpindleSpeed = null;
+            spindleMode = null;
+            if (library.toolChange === ToolChangeMode.M6) {
+                lines.push(`T${tool.number} M6`);
+            } else {
+                lines.push(`; Change to T${tool.number}: ${tool.name}`);
+                lines.push('M0');
             }
+            activeTool = tool;
+        }
 
-            case ShapeType.POLYLINE: {
-                const p = shape as PolylineShape;
-                if (p.points.length > 0) {
-                    const first = p.points[0];
-                    const startX = first.x + x;
-                    const startY = first.y + y;
-
-                    smartMoveToStart(startX, startY);
-
-                    for (let i = 1; i < p.points.length; i++) {
-                        const pt = p.points[i];
-                        const nextX = pt.x + x;
-                        const nextY = pt.y + y;
-                        lines.push(`G1 X${nextX.toFixed(3)} Y${nextY.toFixed(3)} F${feedRate}`);
-                        currentX = nextX;
-                        currentY = nextY;
-                    }
-                }
-                break;
+        const { feedRate, plungeRate, cutDepth, stepDown, safeHeight, spindleSpeed, toolDiameter } = settings;
+        const passCount = getPassDepths(settings).length;
+        const toolLabel = tool ? `T${tool.number} ${tool.name}, D${toolDiameter} mm` : `D${toolDiameter} mm`;
+        lines.push(`; Operation: ${operation.name || label}`);
+        if (operation.laser) {
+            lines.push(`;   Laser, Feed ${feedRate} mm/min, Power S${spindleSpeed}, ${passCount} pass${passCount === 1 ? '' : 'es'}, Tool ${toolLabel}`);
+            // Dynamic power scales with the actual speed, so corners do not burn deeper.
+            // The beam stays off until a cutting move sets its power.
+            if (spindleMode !== 'M4') {
+                lines.push('M4 S0');
+                spindleMode = 'M4';
+                currentPower = 0;
             }
+            return;
+        }
+        lines.push(`;   Feed ${feedRate} mm/min, Plunge ${plungeRate} mm/min, Depth ${cutDepth} mm (${passCount} pass${passCount === 1 ? '' : 'es'}, step ${stepDown || cutDepth} mm), Safe Z ${safeHeight} mm, Spindle ${spindleSpeed} RPM, Tool ${toolLabel}`);
 
-            case ShapeType.HEART: {
-                const h = shape as HeartShape;
-                const steps = 40;
-                const firstPt = calculateHeartPoint(0, h, x, y);
+        // A drag knife trails behind the holder and never needs the spindle
+        if (activeTool?.type !== ToolType.DRAG_KNIFE && (spindleMode !== 'M3' || spindleSpeed !== activeSpindleSpeed)) {
+            lines.push(`M3 S${spindleSpeed}`);
+            activeSpindleSpeed = spindleSpeed;
+            spindleMode = 'M3';
+        }
+    };
 
-                smartMoveToStart(firstPt.x, firstPt.y);
+    const smartMoveToStart = (x: number, y: number, depth: number) => {
+        const dist = Math.hypot(x - currentX, y - currentY);
+        // Already at the start point (e.g. the next pass of a closed contour): step straight down
+        if (dist < 0.01 && currentZ <= settings.safeHeight) {
+            if (Math.abs(currentZ - (-depth)) >= 0.01) {
+                lines.push(`G1 Z${(-depth).toFixed(3)}${feedWord(settings.plungeRate)}`);
+                currentZ = -depth;
+            }
+            return;
+        }
 
-                for (let i = 1; i <= steps; i++) {
-                    const t = (i / steps) * 2 * Math.PI;
-                    const pt = calculateHeartPoint(t, h, x, y);
-                    lines.push(`G1 X${pt.x.toFixed(3)} Y${pt.y.toFixed(3)} F${feedRate}`);
-                    currentX = pt.x;
-                    currentY = pt.y;
-                }
-                break;
+        // If we are not at safe height and need to move to a new start, retract first
+        retract();
+
+        // Move to X,Y
+        lines.push(`G0 X${x.toFixed(3)} Y${y.toFixed(3)}`);
+        currentX = x;
+        currentY = y;
+
+        // Plunge
+        lines.push(`G1 Z${(-depth).toFixed(3)}${feedWord(settings.plungeRate)}`);
+        currentZ = -depth;
+    };
+
+    // Cuts along a contour. With toZ set, Z moves linearly from the current
+    // height to toZ over the length of the contour (ramps and helices).
+    const emitSegments = (contour: Contour, toZ?: number) => {
+        const fromZ = currentZ;
+        const total = toZ !== undefined ? contourLength(contour) : 0;
+        let travelled = 0;
+        let from: { x: number, y: number } = contour.start;
+        for (const seg of contour.segments) {
+            const feed = feedWord(settings.feedRate) + powerWord(settings.spindleSpeed);
+            let zWord = '';
+            if (toZ !== undefined && total > 0) {
+                travelled += segmentLength(from, seg);
+                currentZ = fromZ + (toZ - fromZ) * travelled / total;
+                zWord = ` Z${currentZ.toFixed(3)}`;
+            }
+            if (seg.type === 'ARC') {
+                lines.push(`${seg.clockwise ? 'G2' : 'G3'} X${seg.x.toFixed(3)} Y${seg.y.toFixed(3)}${zWord} I${seg.i.toFixed(3)} J${seg.j.toFixed(3)}${feed}`);
+            } else {
+                lines.push(`G1 X${seg.x.toFixed(3)} Y${seg.y.toFixed(3)}${zWord}${feed}`);
             }
+            currentX = seg.x;
+            currentY = seg.y;
+            from = seg;
+        }
+    };
 
-            case ShapeType.TEXT: {
-                const textShape = shape as TextShape;
-                lines.push(`; Text: "${textShape.text}"`);
-                let fontToUse = await loadFont(textShape.fontFamily || 'Roboto Mono');
+    // Brings the tool to the start of a path at the given depth. The floor
+    // left by the previous pass (fromDepth) is reached at the plunge rate; the
+    // rest is plunged, ramped back and forth along the start of the path, or
+    // spiralled down along a closed path.
+    const enterPath = (path: Contour, closed: boolean, depth: number, fromDepth: number, entry: EntryMode) => {
+        const descent = depth - Math.max(0, fromDepth);
+        const pathLength = contourLength(path);
+        if (entry === EntryMode.PLUNGE || descent <= 1e-6 || pathLength < 0.1) {
+            smartMoveToStart(path.start.x, path.start.y, depth);
+            return;
+        }
+        smartMoveToStart(path.start.x, path.start.y, Math.min(Math.max(0, fromDepth), depth));
 
-                if (!fontToUse) {
-                    console.warn("Could not load font for text generation.");
-                    break;
-                }
+        const run = descent / Math.tan(Math.max(settings.rampAngle || DEFAULT_SETTINGS.rampAngle, 0.5) * Math.PI / 180);
+        if (entry === EntryMode.HELIX && closed) {
+            const laps = Math.max(1, Math.ceil(run / pathLength));
+            for (let lap = 1; lap <= laps; lap++) {
+                emitSegments(path, -(depth - descent + descent * lap / laps));
+            }
+            return;
+        }
 
-                const mirrorMode = textShape.mirrorMode || (textShape.mirror ? MirrorMode.WHOLE : MirrorMode.NONE);
-
-                if (mirrorMode === MirrorMode.CHAR) {
-                    let cursorX = x;
-                    for (const char of textShape.text) {
-                        const path = fontToUse.getPath(char, cursorX, y, textShape.fontSize);
-                        let lastX = 0, lastY = 0, startX = 0, startY = 0;
-
-                        const bbox = path.getBoundingBox();
-                        const centerX = (bbox.x1 + bbox.x2) / 2;
-
-                        for (const cmd of path.commands) {
-                            const mx = (val: number) => centerX - (val - centerX);
-                            if (cmd.type === 'M') {
-                                smartMoveToStart(mx(cmd.x), cmd.y);
-                                lastX = cmd.x; lastY = cmd.y; startX = cmd.x; startY = cmd.y;
-                            } else if (cmd.type === 'L') {
-                                lines.push(`G1 X${mx(cmd.x).toFixed(3)} Y${cmd.y.toFixed(3)} F${feedRate}`);
-                                lastX = cmd.x; lastY = cmd.y;
-                                currentX = mx(cmd.x); currentY = cmd.y;
-                            }
-                            else if (cmd.type === 'Z') {
-                                lines.push(`G1 X${mx(startX).toFixed(3)} Y${startY.toFixed(3)} F${feedRate}`);
-                                lastX = startX; lastY = startY;
-                                currentX = mx(startX); currentY = startY;
-                            } else if (cmd.type === 'Q' || cmd.type === 'C') {
-                                const steps = 5;
-                                for (let i = 1; i <= steps; i++) {
-                                    const t = i / steps;
-                                    let px, py;
-                                    if (cmd.type === 'Q') {
-                                        px = (1 - t) * (1 - t) * lastX + 2 * (1 - t) * t * cmd.x1 + t * t * cmd.x;
-                                        py = (1 - t) * (1 - t) * lastY + 2 * (1 - t) * t * cmd.y1 + t * t * cmd.y;
-                                    } else {
-                                        // @ts-ignore
-                                        px = Math.pow(1 - t, 3) * lastX + 3 * Math.pow(1 - t, 2) * t * cmd.x1 + 3 * (1 - t) * Math.pow(t, 2) * cmd.x2 + Math.pow(t, 3) * cmd.x;
-                                        // @ts-ignore
-                                        py = Math.pow(1 - t, 3) * lastY + 3 * Math.pow(1 - t, 2) * t * cmd.y1 + 3 * (1 - t) * Math.pow(t, 2) * cmd.y2 + Math.pow(t, 3) * cmd.y;
-                                    }
-                                    const mxPx = mx(px);
-                                    lines.push(`G1 X${mxPx.toFixed(3)} Y${py.toFixed(3)} F${feedRate}`);
-                                    currentX = mxPx; currentY = py;
-                                }
-                                lastX = cmd.x; lastY = cmd.y;
-                            }
-                        }
-
-                        const advance = fontToUse.getAdvanceWidth(char, textShape.fontSize);
-                        cursorX += advance + (textShape.letterSpacing || 0);
-                    }
-                } else {
-                    const path = fontToUse.getPath(textShape.text, x, y, textShape.fontSize, { letterSpacing: textShape.letterSpacing });
-                    let lastX = 0, lastY = 0, startX = 0, startY = 0;
-                    for (const cmd of path.commands) {
-                        const mx = (val: number) => {
-                            if (mirrorMode === MirrorMode.WHOLE) return x - (val - x);
-                            return val;
-                        };
-                        // Standard processing
-                        if (cmd.type === 'M') {
-                            smartMoveToStart(mx(cmd.x), cmd.y);
-                            lastX = cmd.x; lastY = cmd.y; startX = cmd.x; startY = cmd.y;
-                        } else if (cmd.type === 'L') {
-                            lines.push(`G1 X${mx(cmd.x).toFixed(3)} Y${cmd.y.toFixed(3)} F${feedRate}`);
-                            lastX = cmd.x; lastY = cmd.y;
-                            currentX = mx(cmd.x); currentY = cmd.y;
-                        } else if (cmd.type === 'Z') {
-                            lines.push(`G1 X${mx(startX).toFixed(3)} Y${startY.toFixed(3)} F${feedRate}`);
-                            lastX = startX; lastY = startY;
-                            currentX = mx(startX); currentY = startY;
-                        } else if (cmd.type === 'Q' || cmd.type === 'C') {
-                            const steps = 5;
-                            for (let i = 1; i <= steps; i++) {
-                                const t = i / steps;
-                                let px, py;
-                                if (cmd.type === 'Q') {
-                                    px = (1 - t) * (1 - t) * lastX + 2 * (1 - t) * t * cmd.x1 + t * t * cmd.x;
-                                    py = (1 - t) * (1 - t) * lastY + 2 * (1 - t) * t * cmd.y1 + t * t * cmd.y;
-                                } else {
-                                    // @ts-ignore
-                                    px = Math.pow(1 - t, 3) * lastX + 3 * Math.pow(1 - t, 2) * t * cmd.x1 + 3 * (1 - t) * Math.pow(t, 2) * cmd.x2 + Math.pow(t, 3) * cmd.x;
-                                    // @ts-ignore
-                                    py = Math.pow(1 - t, 3) * lastY + 3 * Math.pow(1 - t, 2) * t * cmd.y1 + 3 * (1 - t) * Math.pow(t, 2) * cmd.y2 + Math.pow(t, 3) * cmd.y;
-                                }
-                                const mxPx = mx(px);
-                                lines.push(`G1 X${mxPx.toFixed(3)} Y${py.toFixed(3)} F${feedRate}`);
-                                currentX = mxPx; currentY = py;
-                            }
-                            lastX = cmd.x; lastY = cmd.y;
-                        }
+        // Zig-zag: out along the path and back, as often as the ramp angle needs
+        const legLength = Math.min(pathLength, run / 2);
+        const legs = 2 * Math.ceil(run / (2 * legLength));
+        const out = splitContour(path, [legLength])[0].contour;
+        const back = reverseContour(out);
+        for (let leg = 1; leg <= legs; leg++) {
+            emitSegments(leg % 2 === 1 ? out : back, -(depth - descent + descent * leg / legs));
+        }
+    };
+
+    // Cuts a contour pass by pass. Open contours alternate direction so the
+    // tool does not have to travel back to the start between passes. On passes
+    // below the top of the tabs, closed contours lift over them. Lead arcs turn
+    // a closed contour into an open path that is started afresh on every pass.
+    const cutContour = (contour: Contour, tabs: TabSettings | undefined, entry: EntryMode, lead?: { outline: Contour[], wasteInside: boolean }) => {
+        const tabDepth = tabs ? Math.max(0, settings.cutDepth - tabs.height) : settings.cutDepth;
+        const { contour: path, leadInLength } = lead
+            ? addLeads(contour, settings.leadRadius, lead.outline, lead.wasteInside)
+            : { contour, leadInLength: 0 };
+        // The tool center lifts a tool radius before each tab and drops a tool radius after it
+        const ranges = tabs && contour.closed
+            ? tabRanges(contourLength(contour), tabFractions(tabs), tabs.width + settings.toolDiameter)
+                .map(([a, b]): [number, number] => [a + leadInLength, b + leadInLength])
+            : [];
+
+        let pass = path;
+        let previousDepth = 0;
+        for (const depth of getPassDepths(settings)) {
+            if (ranges.length > 0 && depth > tabDepth + 1e-6) {
+                splitContour(pass, ranges.flat()).forEach((piece, index) => {
+                    const middle = (piece.start + piece.end) / 2;
+                    const onTab = ranges.some(([a, b]) => middle > a && middle < b);
+                    const pieceDepth = onTab ? tabDepth : depth;
+                    if (index === 0) {
+                        enterPath(piece.contour, false, pieceDepth, Math.min(previousDepth, pieceDepth), entry);
+                    } else {
+                        smartMoveToStart(piece.contour.start.x, piece.contour.start.y, pieceDepth);
                     }
+                    emitSegments(piece.contour);
+                });
+            } else {
+                enterPath(pass, path.closed, depth, previousDepth, entry);
+                emitSegments(pass);
+            }
+            if (!contour.closed) pass = reverseContour(pass);
+            previousDepth = depth;
+        }
+    };
+
+    // Pockets are cleared level by level. Between the rings (or zig-zag
+    // chains) the tool feeds straight across at depth, and only lifts when
+    // that move would leave the pocket.
+    const cutPocket = (contours: Contour[], outline: Contour[], entry: EntryMode) => {
+        const linkInside = pocketLinkTest(outline, settings.toolDiameter);
+        let inPocket = false;
+        let previousDepth = 0;
+        for (const depth of getPassDepths(settings)) {
+            contours.forEach(contour => {
+                const linked = inPocket && linkInside({ x: currentX, y: currentY }, contour.start);
+                if (linked && Math.hypot(contour.start.x - currentX, contour.start.y - currentY) >= 0.01) {
+                    lines.push(`G1 X${contour.start.x.toFixed(3)} Y${contour.start.y.toFixed(3)}${feedWord(settings.feedRate)}`);
+                    currentX = contour.start.x;
+                    currentY = contour.start.y;
                 }
-                break;
+                enterPath(contour, contour.closed, depth, linked ? -currentZ : previousDepth, entry);
+                emitSegments(contour);
+                inPocket = true;
+            });
+            previousDepth = depth;
+        }
+    };
+
+    const rapidTo = (x: number, y: number) => {
+        if (Math.hypot(x - currentX, y - currentY) < 0.01) return;
+        lines.push(`G0 X${x.toFixed(3)} Y${y.toFixed(3)}`);
+        currentX = x;
+        currentY = y;
+    };
+
+    // Laser passes retrace the contour at the same height. Tabs are gaps the
+    // beam skips over.
+    const laserContour = (contour: Contour, tabs: TabSettings | undefined) => {
+        const ranges = tabs && contour.closed
+            ? tabRanges(contourLength(contour), tabFractions(tabs), tabs.width + settings.toolDiameter)
+            : [];
+        let pass = contour;
+        for (let p = 0; p < getPassDepths(settings).length; p++) {
+            const pieces = ranges.length > 0 ? splitContour(pass, ranges.flat()) : [{ contour: pass, start: 0, end: 0 }];
+            pieces.forEach(piece => {
+                const middle = (piece.start + piece.end) / 2;
+                if (ranges.some(([a, b]) => middle > a && middle < b)) return;
+                rapidTo(piece.contour.start.x, piece.contour.start.y);
+                emitSegments(piece.contour);
+            });
+            if (!contour.closed) pass = reverseContour(pass);
+        }
+    };
+
+    // Each scan line starts in the overscan with the beam off, so the head is
+    // up to speed before the first run is burnt. Further passes burn deeper.
+    const engraveRaster = (scanLines: RasterLine[]) => {
+        const passes = getPassDepths(settings).length;
+        for (const line of Array.from({ length: passes }, () => scanLines).flat()) {
+            rapidTo(line.from, line.y);
+            const points = [
+                { x: line.runs[0].x0, power: 0 },
+                ...line.runs.map(run => ({ x: run.x1, power: run.power })),
+                { x: line.to, power: 0 }
+            ];
+            for (const { x, power } of points) {
+                lines.push(`G1 X${x.toFixed(3)}${powerWord(power)}${feedWord(settings.feedRate)}`);
             }
+            currentX = line.to;
         }
     };
 
+    // Each operation's shapes are cut together, in the order operations
+    // first appear; within an operation the contours are reordered to cut
+    // down rapid travel.
+    const byOperation = new Map<Operation, CutJob[]>();
+    const drawingOrder: CutJob[] = [];
+    for (const machined of collectMachinedShapes(shapes, defaultSettings)) {
+        if (machined.shape.type === ShapeType.IMAGE) {
+            // Images are only ever engraved, line by line, with a laser
+            if (!machined.operation.laser) continue;
+            const raster = rasterLines(machined.shape as ImageShape, machined.operation.settings.spindleSpeed, machined.offsetX, machined.offsetY);
+            if (raster.length === 0) continue;
+            const first = raster[0], last = raster[raster.length - 1];
+            const span: Contour = { start: { x: first.from, y: first.y }, segments: [{ type: 'LINE', x: last.to, y: last.y }], closed: false };
+            const job: CutJob = { machined, outline: [], raster, contours: [span], rotatable: false, reversible: false, passes: 1 };
+            byOperation.set(machined.operation, [...(byOperation.get(machined.operation) || []), job]);
+            drawingOrder.push(job);
+            continue;
+        }
+        const { contours, outline } = await shapeToolpath(machined);
+        if (contours.length === 0) continue;
+        const tabs = activeTabs(machined);
+        const passes = getPassDepths(machined.operation.settings).length;
+        const jobs: CutJob[] = [];
+        if (machined.profile === ProfileMode.POCKET) {
+            // Pocket rings and rows are already in cutting order
+            jobs.push({ machined, outline, tabs, contours, rotatable: false, reversible: false, passes });
+        } else {
+            contours.forEach(contour => jobs.push({
+                machined, outline, tabs, contours: [contour], passes,
+                // Tab positions are measured from the contour start, so it stays put
+                rotatable: contour.closed && !tabs,
+                reversible: !contour.closed
+            }));
+        }
+        byOperation.set(machined.operation, [...(byOperation.get(machined.operation) || []), ...jobs]);
+        drawingOrder.push(...jobs);
+    }
+
+    const home = { x: 0, y: 0 };
+    let from = home;
+    const ordered = [...byOperation.values()].flatMap(jobs => {
+        const result = orderJobs(jobs, from);
+        from = jobExit(result[result.length - 1]);
+        return result;
+    });
+    lines.splice(1, 0, `; Rapid travel: ${travelDistance(drawingOrder, home).toFixed(0)} mm in drawing order, ${travelDistance(ordered, home).toFixed(0)} mm optimised`);
+    // A laser-only program never moves Z, so the focus set on the machine stays
+    const usesLaser = ordered.some(job => job.machined.operation.laser);
+    if (usesLaser) lines.push('; Laser operations need GRBL laser mode ($32=1)');
+    if (ordered.length === 0 || ordered.some(job => !job.machined.operation.laser)) lines.push(`G0 Z${defaultSettings.safeHeight}`);
+    lines.push('');
+
+    let activeShape: Shape | null = null;
+    for (const job of ordered) {
+        const { machined, outline, tabs, contours } = job;
+        const { shape, operation, label, profile, entry } = machined;
+        beginOperation(operation, label);
+        if (shape !== activeShape) {
+            activeShape = shape;
+            if (shape.type === ShapeType.TEXT) {
+                lines.push(`; Text: "${(shape as TextShape).text}"`);
+            }
+            if (tabs) {
+                lines.push(`; Tabs: ${tabFractions(tabs).length} x ${tabs.width} mm, ${tabs.height} mm high`);
+            }
+        }
 
-    for (const shape of shapes) {
-        await processShape(shape);
+        if (job.raster) {
+            engraveRaster(job.raster);
+            continue;
+        }
+        if (operation.laser) {
+            contours.forEach(contour => laserContour(contour, tabs));
+            continue;
+        }
+        if (profile === ProfileMode.POCKET) {
+            cutPocket(contours, outline, entry);
+            continue;
+        }
+        const lead = settings.leadRadius > 0
+            ? { outline, wasteInside: profile === ProfileMode.INSIDE }
+            : undefined;
+        contours.forEach(contour => cutContour(contour, tabs, entry, lead));
     }
 
     // Final Retract
-    if (currentZ < safeHeight) {
-        lines.push(`G0 Z${safeHeight}`);
-    }
+    retract();
 
     lines.push('');
     lines.push('M5');
@@ -0,0 +1,86 @@
+import { Vec3, interpretGCode, programLines, workPosition } from './gcodeInterpreterService';
+
+// Starting a job part way through: the program up to the chosen line is
+// interpreted (not run) to recover the modes, spindle and position in effect
+// there, and a short preamble brings the machine into that state safely.
+
+export interface ResumePlan {
+    lineIndex: number; // 0-based line the job resumes at
+    preamble: string[];
+    lines: { lineIndex: number, text: string }[]; // Program lines sent after the preamble
+    start: Vec3;       // Work position the resumed line starts from, program units
+    safeZ: number | null; // Work Z the preamble travels at, mm; null when Z is left alone
+}
+
+const DEFAULT_SAFE_Z = 5;
+
+const num = (v: number) => parseFloat(v.toFixed(4)).toString();
+
+const MOTION_WORD = /G0*(?:[0-3]|38\.[2-5]|80)(?![\d.])/i;
+const AXIS_WORD = /[XYZ]/i;
+// Non-modal commands whose axis words are not a motion
+const AXIS_COMMAND = /G(?:10|28|30|92)(?![\d])/i;
+
+export const buildResumePlan = (gcode: string, lineIndex: number): ResumePlan => {
+    const full = interpretGCode(gcode);
+    const { state, motions } = interpretGCode(gcode, lineIndex);
+    const startMm = workPosition(state);
+
+    // Laser jobs and 2D programs never move Z, so neither does the preamble
+    const moveZ = state.spindle !== 'M4' && full.motions.some(m => Math.abs(m.end.z - m.start.z) > 1e-9);
+
+    // Travel at the height the program's own rapids use
+    let safeZ = -Infinity;
+    full.motions.forEach(m => {
+        if (m.type === 'rapid') safeZ = Math.max(safeZ, workPosition({ ...m.state, position: m.end }).z);
+    });
+    if (!isFinite(safeZ)) safeZ = DEFAULT_SAFE_Z;
+    safeZ = Math.max(safeZ, startMm.z);
+
+    // Plunge at the feed of the last straight-down move before the line
+    let plungeFeed = state.feedMode === 'G94' ? state.feed : 0;
+    for (let i = motions.length - 1; i >= 0; i--) {
+        const m = motions[i];
+        if (m.type === 'linear' && m.end.z < m.start.z && Math.hypot(m.end.x - m.start.x, m.end.y - m.start.y) < 1e-6 && m.feed > 0) {
+            plungeFeed = m.feed;
+            break;
+        }
+    }
+    if (plungeFeed <= 0) plungeFeed = 100;
+
+    const preamble = [
+        `G21 G90 G17 G94 ${state.coordinateSystem}`,
+        ...(moveZ && state.toolLengthOffset !== 0 ? [`G43.1 Z${num(state.toolLengthOffset)}`] : []),
+        ...(moveZ ? [`G0 Z${num(safeZ)}`] : []),
+        ...(state.spindle !== 'M5' ? [`${state.spindle} S${num(state.spindleSpeed)}`] : []),
+        ...(state.mist ? ['M7'] : []),
+        ...(state.flood ? ['M8'] : []),
+        `G0 X${num(startMm.x)} Y${num(startMm.y)}`,
+        ...(moveZ ? [`G1 Z${num(startMm.z)} F${num(plungeFeed)}`] : []),
+    ];
+
+    // Back to the program's own modes for the lines that follow
+    const scale = state.units === 'G20' ? 25.4 : 1;
+    const restore: string[] = [state.units, state.distance, state.plane, state.feedMode];
+    if (state.feedMode === 'G94' && state.feed > 0) restore.push(`F${num(state.feed / scale)}`);
+    preamble.push(restore.join(' '));
+    // GRBL rejects G2/G3 (and G38.x) without axis words, so arc mode goes in
+    // front of the first resumed move that relies on it rather than on its own
+    const lines = programLines(gcode).filter(line => line.lineIndex >= lineIndex);
+    if (state.motion === 'G0' || state.motion === 'G1' || state.motion === 'G80') {
+        if (state.motion !== (moveZ ? 'G1' : 'G0')) preamble.push(state.motion);
+    } else {
+        const first = lines.findIndex(line => MOTION_WORD.test(line.text) || (AXIS_WORD.test(line.text) && !AXIS_COMMAND.test(line.text)));
+        if (first >= 0 && !MOTION_WORD.test(lines[first].text)) {
+            lines[first] = { ...lines[first], text: `${state.motion} ${lines[first].text}` };
+        }
+    }
+
+    return {
+        lineIndex,
+        preamble,
+        lines,
+        start: { x: parseFloat(num(startMm.x / scale)), y: parseFloat(num(startMm.y / scale)), z: parseFloat(num(startMm.z / scale)) },
+        safeZ: moveZ ? safeZ : null,
+    };
+};
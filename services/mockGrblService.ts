@@ -0,0 +1,707 @@
+import type { SerialPort } from './serialService';
+import {
+    ModalState, Motion, Vec3, WORK_COORDINATE_SYSTEMS,
+    createModalState, executeBlock, motionPoints, stripComments,
+} from './gcodeInterpreterService';
+
+// Simulated GRBL 1.1 controller behind the Web Serial port interface, so the
+// streamer and the machine panel can be tried in the browser (the Simulate
+// button) without hardware. Lines go through a 128-byte receive buffer and a
+// 16-block planner, are answered with ok or error:N the way GRBL validates
+// them, and move a virtual machine position at the programmed feeds (without
+// acceleration). Realtime bytes, $ commands, overrides, jogging and probing
+// against a virtual workpiece are supported.
+
+const RX_BUFFER_SIZE = 128;
+const PLANNER_BLOCKS = 15;  // GRBL keeps one of its 16 blocks free
+const LINE_BUFFER_SIZE = 80;
+const TICK_MS = 20;
+const VERSION = '1.1h';
+
+// GRBL 1.1 factory settings
+const DEFAULT_SETTINGS: Record<string, string> = {
+    '0': '10', '1': '25', '2': '0', '3': '0', '4': '0', '5': '0', '6': '0',
+    '10': '1', '11': '0.010', '12': '0.002', '13': '0',
+    '20': '0', '21': '0', '22': '0', '23': '0', '24': '25.000', '25': '500.000', '26': '250', '27': '1.000',
+    '30': '1000', '31': '0', '32': '0',
+    '100': '250.000', '101': '250.000', '102': '250.000',
+    '110': '500.000', '111': '500.000', '112': '500.000',
+    '120': '10.000', '121': '10.000', '122': '10.000',
+    '130': '200.000', '131': '200.000', '132': '200.000',
+};
+
+const SUPPORTED_G = [0, 1, 2, 3, 4, 10, 17, 18, 19, 20, 21, 28, 28.1, 30, 30.1, 38.2, 38.3, 38.4, 38.5, 40, 43.1, 49,
+    53, 54, 55, 56, 57, 58, 59, 61, 80, 90, 91, 91.1, 92, 92.1, 93, 94];
+const SUPPORTED_M = [0, 1, 2, 3, 4, 5, 7, 8, 9, 30, 56];
+const G_GROUPS = [
+    [0, 1, 2, 3, 38.2, 38.3, 38.4, 38.5, 80],
+    [17, 18, 19], [90, 91], [93, 94], [20, 21], [54, 55, 56, 57, 58, 59], [43.1, 49],
+    [4, 10, 28, 28.1, 30, 30.1, 53, 92, 92.1],
+];
+const M_GROUPS = [[0, 1, 2, 30], [3, 4, 5]];
+const VALUE_LETTERS = 'FIJKLNPRSTXYZ';
+const JOG_G = [20, 21, 53, 90, 91];
+
+// Axis-aligned block the probe touches, machine coordinates
+export interface MockWorkpiece {
+    min: Vec3;
+    max: Vec3;
+}
+
+export interface MockGrblOptions {
+    workpiece?: MockWorkpiece;
+    settings?: Record<string, string>;
+}
+
+type State = 'Idle' | 'Run' | 'Hold' | 'Jog' | 'Alarm' | 'Door' | 'Check' | 'Home' | 'Sleep';
+
+interface PlannerBlock {
+    points: Vec3[];    // Path from the start, arcs as chords
+    segment: number;   // Index of the segment being travelled
+    along: number;     // mm into that segment
+    feed: number;      // mm/min; 0 for rapids
+    dwell?: number;    // Remaining ms
+    probe?: 'toward' | 'away';
+    probeMustTrigger?: boolean;
+    jog?: boolean;
+    home?: boolean;
+    lineNumber?: number;
+    okWhenDone?: boolean; // The line's ok waits for the block to finish
+}
+
+const near = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+const fmt = (v: number) => v.toFixed(3);
+const fmtVec = (v: Vec3) => `${fmt(v.x)},${fmt(v.y)},${fmt(v.z)}`;
+
+// Checks a block the way GRBL's parser does before running it; returns an
+// error code or null
+const checkBlock = (text: string, state: ModalState): number | null => {
+    if (text.length >= LINE_BUFFER_SIZE) return 11;
+    const letters = new Set<string>();
+    const gCodes: number[] = [];
+    const mCodes: number[] = [];
+    const values = new Map<string, number>();
+    const re = /([A-Z])([-+]?(?:\d+\.?\d*|\.\d+))?/y;
+    let i = 0;
+    while (i < text.length) {
+        re.lastIndex = i;
+        const match = re.exec(text);
+        if (!match) return 1;
+        if (match[2] === undefined) return 2;
+        i = re.lastIndex;
+        const letter = match[1];
+        const value = parseFloat(match[2]);
+        if (letter === 'G') gCodes.push(value);
+        else if (letter === 'M') mCodes.push(value);
+        else if (!VALUE_LETTERS.includes(letter)) return 20;
+        else if (letters.has(letter)) return 25;
+        else {
+            letters.add(letter);
+            values.set(letter, value);
+        }
+    }
+    if (gCodes.some(g => !SUPPORTED_G.some(s => near(s, g)))) return 20;
+    if (mCodes.some(m => !SUPPORTED_M.includes(m))) return 20;
+    const inGroup = (codes: number[], group: number[]) => codes.filter(c => group.some(g => near(g, c))).length;
+    if (G_GROUPS.some(group => inGroup(gCodes, group) > 1) || M_GROUPS.some(group => inGroup(mCodes, group) > 1)) return 21;
+    if ((values.get('F') ?? 0) < 0 || (values.get('S') ?? 0) < 0) return 4;
+    if (values.has('T') && (!Number.isInteger(values.get('T')) || values.get('T')! > 255)) return values.get('T')! > 255 ? 38 : 23;
+
+    const has = (g: number) => gCodes.some(v => near(v, g));
+    const axisWords = ['X', 'Y', 'Z'].filter(l => values.has(l));
+    const axisCommand = [10, 28, 30, 92].some(has);
+    const explicitMotion = gCodes.find(g => G_GROUPS[0].some(m => near(m, g)));
+    if (axisCommand && explicitMotion !== undefined && !near(explicitMotion, 80) && axisWords.length > 0) return 24;
+    if (has(10)) {
+        const p = values.get('P') ?? 0;
+        if (!Number.isInteger(p)) return 23;
+        if (p > 6) return 29;
+    }
+
+    const motion = explicitMotion ?? parseFloat(state.motion.slice(1));
+    if (has(53) && !(near(motion, 0) || near(motion, 1))) return 30;
+    if (explicitMotion !== undefined && (near(explicitMotion, 2) || near(explicitMotion, 3)) && axisWords.length === 0) return 26;
+    if (axisCommand || axisWords.length === 0) return null;
+    if (near(motion, 80)) return 31;
+    if (near(motion, 0)) return null;
+
+    const inverseTime = has(93) || (state.feedMode === 'G93' && !has(94));
+    if (inverseTime ? !values.has('F') : !values.has('F') && state.feed <= 0) return 22;
+    if (near(motion, 2) || near(motion, 3)) {
+        const plane = has(18) ? 'G18' : has(19) ? 'G19' : has(17) ? 'G17' : state.plane;
+        const [a, b, ia, ib] = plane === 'G17' ? ['X', 'Y', 'I', 'J'] : plane === 'G18' ? ['Z', 'X', 'K', 'I'] : ['Y', 'Z', 'J', 'K'];
+        if (!values.has(a) && !values.has(b)) return 32;
+        if (!values.has('R') && !values.has(ia) && !values.has(ib)) return 35;
+    }
+    return null;
+};
+
+export class MockGrblPort implements SerialPort {
+    readable: ReadableStream<Uint8Array> | null = null;
+    writable: WritableStream<Uint8Array> | null = null;
+
+    private controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+    private ticker: ReturnType<typeof setInterval> | null = null;
+    private lastTick = 0;
+    private encoder = new TextEncoder();
+
+    private settings: Record<string, string>;
+    private workpiece: MockWorkpiece;
+    private rx = '';            // Received bytes not yet taken by the parser
+    private planner: PlannerBlock[] = [];
+    private busy = false;       // A probe, dwell or homing cycle is holding back the next line
+    private parser: ModalState = createModalState();
+    private position: Vec3 = { x: 0, y: 0, z: 0 }; // Machine coordinates, mm
+    private state: State = 'Idle';
+    private subState: number | undefined;
+    private checkMode = false;
+    private feedOverride = 100;
+    private rapidOverride = 100;
+    private spindleOverride = 100;
+    private spindleStopped = false;
+    private probe = { position: { x: 0, y: 0, z: 0 }, success: false };
+    private reportCount = 0;
+
+    constructor(options: MockGrblOptions = {}) {
+        this.settings = { ...DEFAULT_SETTINGS, ...options.settings };
+        // 100 mm square of stock off the starting corner, its top 40 mm below
+        this.workpiece = options.workpiece || { min: { x: 10, y: 10, z: -100 }, max: { x: 110, y: 110, z: -40 } };
+    }
+
+    async open(_options: { baudRate: number }) {
+        this.readable = new ReadableStream<Uint8Array>({
+            start: controller => { this.controller = controller; },
+            cancel: () => { this.controller = null; },
+        });
+        this.writable = new WritableStream<Uint8Array>({
+            write: chunk => this.receive(chunk),
+        });
+        this.lastTick = Date.now();
+        this.ticker = setInterval(() => this.tick(), TICK_MS);
+        this.reset();
+    }
+
+    async close() {
+        if (this.ticker) clearInterval(this.ticker);
+        this.ticker = null;
+        try {
+            this.controller?.close();
+        } catch {
+            // Already cancelled by the reader
+        }
+        this.controller = null;
+    }
+
+    // Current machine position, for inspecting the simulation
+    getPosition(): Vec3 {
+        return { ...this.position };
+    }
+
+    private emit(text: string) {
+        try {
+            this.controller?.enqueue(this.encoder.encode(text + '\r\n'));
+        } catch {
+            this.controller = null;
+        }
+    }
+
+    // --- Input ---
+
+    private receive(chunk: Uint8Array) {
+        for (const byte of chunk) {
+            if (byte === 0x3F || byte === 0x21 || byte === 0x7E || byte === 0x18 || byte >= 0x80) {
+                this.realtime(byte);
+            } else if (this.rx.length < RX_BUFFER_SIZE - 1) {
+                this.rx += String.fromCharCode(byte);
+            }
+            // Like GRBL, bytes arriving with the buffer full are lost
+        }
+        this.pump();
+    }
+
+    private realtime(byte: number) {
+        const clamp = (v: number) => Math.max(10, Math.min(200, v));
+        const overridesBefore = `${this.feedOverride},${this.rapidOverride},${this.spindleOverride}`;
+        switch (byte) {
+            case 0x3F: this.emit(this.statusReport()); break;
+            case 0x18: this.softReset(); break;
+            case 0x21: this.feedHold(); break;
+            case 0x7E: this.cycleStart(); break;
+            case 0x84:
+                if (this.state !== 'Alarm' && this.state !== 'Sleep') {
+                    this.state = 'Door';
+                    this.subState = 0;
+                }
+                break;
+            case 0x85: if (this.state === 'Jog') this.cancelJog(); break;
+            case 0x90: this.feedOverride = 100; break;
+            case 0x91: this.feedOverride = clamp(this.feedOverride + 10); break;
+            case 0x92: this.feedOverride = clamp(this.feedOverride - 10); break;
+            case 0x93: this.feedOverride = clamp(this.feedOverride + 1); break;
+            case 0x94: this.feedOverride = clamp(this.feedOverride - 1); break;
+            case 0x95: this.rapidOverride = 100; break;
+            case 0x96: this.rapidOverride = 50; break;
+            case 0x97: this.rapidOverride = 25; break;
+            case 0x99: this.spindleOverride = 100; break;
+            case 0x9A: this.spindleOverride = clamp(this.spindleOverride + 10); break;
+            case 0x9B: this.spindleOverride = clamp(this.spindleOverride - 10); break;
+            case 0x9C: this.spindleOverride = clamp(this.spindleOverride + 1); break;
+            case 0x9D: this.spindleOverride = clamp(this.spindleOverride - 1); break;
+            case 0x9E: if (this.state === 'Hold') this.spindleStopped = !this.spindleStopped; break;
+            case 0xA0: this.parser = { ...this.parser, flood: !this.parser.flood }; break;
+            case 0xA1: this.parser = { ...this.parser, mist: !this.parser.mist }; break;
+        }
+        // Changed overrides go out with the next report
+        if (overridesBefore !== `${this.feedOverride},${this.rapidOverride},${this.spindleOverride}` || byte >= 0x9E) {
+            this.reportCount = 5;
+        }
+    }
+
+    // Takes lines from the receive buffer for as long as the planner has
+    // room and nothing is waiting for the machine to finish
+    private pump() {
+        while (!this.busy) {
+            const end = this.rx.search(/[\r\n]/);
+            if (end < 0) return;
+            const raw = this.rx.slice(0, end);
+            const text = stripComments(raw).replace(/\s+/g, '').toUpperCase();
+            if (!this.canTake(text)) return;
+            this.rx = this.rx.slice(end + 1);
+            if (text.length === 0) {
+                if (raw.trim().length > 0) this.emit('ok'); // Comment-only lines are still answered
+                continue;
+            }
+            this.takeLine(text);
+        }
+    }
+
+    private canTake(text: string): boolean {
+        if (text.startsWith('$J=')) return this.planner.length < PLANNER_BLOCKS;
+        if (text.startsWith('$')) return this.planner.length === 0;
+        if (this.checkMode || this.state === 'Alarm') return true;
+        const result = executeBlock(this.parser, text, 0);
+        if (this.needsSync(text, result.state)) return this.planner.length === 0 && this.state !== 'Hold';
+        return this.planner.length + result.motions.length <= PLANNER_BLOCKS || this.planner.length === 0;
+    }
+
+    // Blocks GRBL only runs once everything before them has finished
+    private needsSync(text: string, next: ModalState): boolean {
+        const prev = this.parser;
+        return next.spindle !== prev.spindle || next.flood !== prev.flood || next.mist !== prev.mist
+            || (next.spindle !== 'M5' && next.spindleSpeed !== prev.spindleSpeed && this.settings['32'] !== '1')
+            || /G(4|10|28|30|38|92)(?!\d)/.test(text) || /M(0?[012]|30)(?!\d)/.test(text);
+    }
+
+    private takeLine(text: string) {
+        if (text.startsWith('$')) {
+            this.systemCommand(text);
+            return;
+        }
+        if (this.state === 'Alarm' || this.state === 'Sleep') {
+            this.emit('error:9');
+            return;
+        }
+        const code = checkBlock(text, this.parser);
+        if (code !== null) {
+            this.emit(`error:${code}`);
+            return;
+        }
+        const result = executeBlock(this.parser, text, 0);
+        if (result.error) {
+            this.emit(`error:${result.error.startsWith('Arc') ? 34 : 20}`);
+            return;
+        }
+        const lineNumber = text.match(/^N(\d+)/)?.[1];
+        const prev = this.parser;
+        this.parser = result.state;
+        // Changed offsets and accessories go out with the next report
+        const p = this.parser;
+        if (prev.offsets !== p.offsets || prev.g92Offset !== p.g92Offset || prev.toolLengthOffset !== p.toolLengthOffset
+            || prev.coordinateSystem !== p.coordinateSystem) this.reportCount = 0;
+        else if (prev.spindle !== p.spindle || prev.flood !== p.flood || prev.mist !== p.mist) this.reportCount = 5;
+        if (this.checkMode) {
+            this.emit('ok');
+            return;
+        }
+
+        let okWhenDone = false;
+        result.motions.forEach(motion => {
+            const block = this.plan(motion, lineNumber !== undefined ? parseInt(lineNumber, 10) : undefined);
+            if (block.probe || block.dwell !== undefined) {
+                block.okWhenDone = true;
+                okWhenDone = true;
+            }
+            this.planner.push(block);
+        });
+        if (/M0?0(?!\d)/.test(text)) {
+            this.state = 'Hold';
+            this.subState = 0;
+        }
+        if (/M(0?2|30)(?!\d)/.test(text)) this.emit('[MSG:Pgm End]');
+        if (okWhenDone) this.busy = true;
+        else this.emit('ok');
+        if (this.planner.length > 0 && this.state === 'Idle') this.state = 'Run';
+    }
+
+    private plan(motion: Motion, lineNumber?: number): PlannerBlock {
+        const block: PlannerBlock = { points: [motion.start, motion.end], segment: 0, along: 0, feed: motion.feed, lineNumber };
+        if (motion.type === 'arc') {
+            const tolerance = parseFloat(this.settings['12']) || 0.002;
+            const r = Math.hypot(motion.start.x - motion.center!.x, motion.start.y - motion.center!.y, motion.start.z - motion.center!.z);
+            block.points = [motion.start, ...motionPoints(motion, Math.max(2 * Math.sqrt(tolerance * Math.max(2 * r - tolerance, tolerance)), 0.01))];
+        } else if (motion.type === 'dwell') {
+            block.dwell = (motion.duration || 0) * 1000;
+        } else if (motion.type === 'probe') {
+            const mode = motion.state.motion;
+            block.probe = mode === 'G38.2' || mode === 'G38.3' ? 'toward' : 'away';
+            block.probeMustTrigger = mode === 'G38.2' || mode === 'G38.4';
+        }
+        return block;
+    }
+
+    // --- $ commands ---
+
+    private systemCommand(text: string) {
+        const locked = this.state === 'Alarm';
+        const setting = text.match(/^\$(\d+)=(.*)$/);
+        if (text === '$') {
+            this.emit('[HLP:$$ $# $G $I $N $x=val $Nx=line $J=line $SLP $C $X $H ~ ! ? ctrl-x]');
+        } else if (text === '$$') {
+            Object.keys(this.settings).map(Number).sort((a, b) => a - b).forEach(key => this.emit(`$${key}=${this.settings[key]}`));
+        } else if (text === '$#') {
+            WORK_COORDINATE_SYSTEMS.forEach(wcs => this.emit(`[${wcs}:${fmtVec(this.parser.offsets[wcs])}]`));
+            this.emit(`[G28:${fmtVec(this.parser.g28Position)}]`);
+            this.emit(`[G30:${fmtVec(this.parser.g30Position)}]`);
+            this.emit(`[G92:${fmtVec(this.parser.g92Offset)}]`);
+            this.emit(`[TLO:${fmt(this.parser.toolLengthOffset)}]`);
+            this.emit(this.probeReport());
+        } else if (text === '$G') {
+            const p = this.parser;
+            const coolant = p.mist || p.flood ? [p.mist && 'M7', p.flood && 'M8'].filter(Boolean).join(' ') : 'M9';
+            this.emit(`[GC:${p.motion} ${p.coordinateSystem} ${p.plane} ${p.units} ${p.distance} ${p.feedMode} ${p.spindle} ${coolant} T${p.tool} F${p.feed} S${p.spindleSpeed}]`);
+        } else if (text === '$I') {
+            this.emit(`[VER:${VERSION}.20190825:]`);
+            this.emit(`[OPT:V,${PLANNER_BLOCKS + 1},${RX_BUFFER_SIZE}]`);
+        } else if (text === '$N') {
+            this.emit('$N0=');
+            this.emit('$N1=');
+        } else if (/^\$N[01]=/.test(text)) {
+            // Startup lines are accepted but not run
+        } else if (setting) {
+            if (!(setting[1] in this.settings)) {
+                this.emit('error:3');
+                return;
+            }
+            const value = parseFloat(setting[2]);
+            if (isNaN(value)) {
+                this.emit('error:2');
+                return;
+            }
+            if (value < 0) {
+                this.emit('error:4');
+                return;
+            }
+            if (this.state !== 'Idle' && this.state !== 'Alarm') {
+                this.emit('error:8');
+                return;
+            }
+            this.settings[setting[1]] = setting[2].includes('.') ? value.toFixed(3) : String(value);
+        } else if (text === '$X') {
+            if (locked) {
+                this.state = 'Idle';
+                this.emit('[MSG:Caution: Unlocked]');
+            }
+        } else if (text === '$H') {
+            if (this.settings['22'] !== '1') {
+                this.emit('error:5');
+                return;
+            }
+            if (this.state !== 'Idle' && !locked) {
+                this.emit('error:8');
+                return;
+            }
+            this.home();
+            return; // ok comes when homing finishes
+        } else if (text === '$C') {
+            if (this.state !== 'Idle' && this.state !== 'Check') {
+                this.emit('error:8');
+                return;
+            }
+            this.checkMode = !this.checkMode;
+            this.emit(this.checkMode ? '[MSG:Enabled]' : '[MSG:Disabled]');
+            if (!this.checkMode) {
+                this.softReset();
+                return;
+            }
+            this.state = 'Check';
+        } else if (text === '$SLP') {
+            this.planner = [];
+            this.state = 'Sleep';
+            this.emit('[MSG:Sleeping]');
+        } else if (text.startsWith('$RST=')) {
+            if (text === '$RST=$' || text === '$RST=*') this.settings = { ...DEFAULT_SETTINGS };
+            if (text === '$RST=#' || text === '$RST=*') {
+                this.parser = { ...createModalState(), position: this.position };
+            }
+        } else if (text.startsWith('$J=')) {
+            this.jog(text.slice(3));
+            return;
+        } else {
+            this.emit('error:3');
+            return;
+        }
+        this.emit('ok');
+    }
+
+    private jog(body: string) {
+        if (this.state === 'Alarm') return this.emit('error:9');
+        if (this.state !== 'Idle' && this.state !== 'Jog') return this.emit('error:8');
+        const gCodes = [...body.matchAll(/G([\d.]+)/g)].map(m => parseFloat(m[1]));
+        if (/[^GXYZF\d.+-]/.test(body.replace(/G[\d.]+/g, '')) || gCodes.some(g => !JOG_G.some(j => near(j, g)))) {
+            return this.emit('error:16');
+        }
+        if (!/F/.test(body)) return this.emit('error:22');
+        if (!/[XYZ]/.test(body)) return this.emit('error:26');
+        const code = checkBlock(`G1${body}`, this.parser);
+        if (code !== null) return this.emit(`error:${code}`);
+        // Jogs leave the modal state alone apart from the position
+        const result = executeBlock({ ...this.parser, motion: 'G1' }, `G1${body}`, 0);
+        const motion = result.motions[0];
+        if (motion) {
+            this.planner.push({ ...this.plan(motion), jog: true });
+            this.parser = { ...this.parser, position: motion.end };
+            this.state = 'Jog';
+        }
+        this.emit('ok');
+    }
+
+    private home() {
+        const pulloff = parseFloat(this.settings['27']) || 0;
+        const directions = parseInt(this.settings['23'], 10) || 0;
+        const target = { ...this.position };
+        (['x', 'y', 'z'] as const).forEach((axis, i) => {
+            const travel = parseFloat(this.settings[`13${i}`]) || 0;
+            target[axis] = directions & (1 << i) ? -travel + pulloff : -pulloff;
+        });
+        this.planner = [{ points: [{ ...this.position }, target], segment: 0, along: 0, feed: parseFloat(this.settings['25']) || 500, home: true, okWhenDone: true }];
+        this.state = 'Home';
+        this.busy = true;
+    }
+
+    // --- Realtime control ---
+
+    private feedHold() {
+        if (this.state === 'Jog') {
+            this.cancelJog();
+        } else if (this.state === 'Run' || this.state === 'Idle') {
+            this.state = 'Hold';
+            this.subState = 0;
+        }
+    }
+
+    private cycleStart() {
+        if (this.state === 'Hold' || this.state === 'Door') {
+            this.state = this.planner.length > 0 ? 'Run' : 'Idle';
+            this.subState = undefined;
+            this.spindleStopped = false;
+            this.pump();
+        }
+    }
+
+    private cancelJog() {
+        this.planner = [];
+        this.parser = { ...this.parser, position: { ...this.position } };
+        this.state = 'Idle';
+    }
+
+    private softReset() {
+        if (this.state === 'Run' || this.state === 'Jog' || this.state === 'Home') {
+            this.alarm(this.state === 'Home' ? 6 : 3);
+        }
+        const alarmed = this.state === 'Alarm';
+        this.rx = '';
+        this.planner = [];
+        this.busy = false;
+        this.checkMode = false;
+        this.subState = undefined;
+        this.spindleStopped = false;
+        this.feedOverride = this.rapidOverride = this.spindleOverride = 100;
+        // Offsets survive a reset; the modes go back to their defaults
+        const p = this.parser;
+        this.parser = {
+            ...createModalState(),
+            position: { ...this.position },
+            offsets: p.offsets, g92Offset: p.g92Offset, g28Position: p.g28Position, g30Position: p.g30Position,
+        };
+        this.reset(alarmed);
+    }
+
+    private reset(alarmed = false) {
+        this.state = alarmed || this.settings['22'] === '1' ? 'Alarm' : 'Idle';
+        this.emit('');
+        this.emit(`Grbl ${VERSION} ['$' for help]`);
+        if (this.state === 'Alarm') this.emit(`[MSG:'$H'|'$X' to unlock]`);
+    }
+
+    private alarm(code: number) {
+        this.planner = [];
+        this.busy = false;
+        this.state = 'Alarm';
+        this.parser = { ...this.parser, position: { ...this.position } };
+        this.emit(`ALARM:${code}`);
+    }
+
+    // --- Motion ---
+
+    private inWorkpiece(p: Vec3) {
+        const { min, max } = this.workpiece;
+        return p.x >= min.x && p.x <= max.x && p.y >= min.y && p.y <= max.y && p.z >= min.z && p.z <= max.z;
+    }
+
+    private probeReport() {
+        return `[PRB:${fmtVec(this.probe.position)}:${this.probe.success ? 1 : 0}]`;
+    }
+
+    private rateFor(block: PlannerBlock, from: Vec3, to: Vec3): number {
+        const d = { x: to.x - from.x, y: to.y - from.y, z: to.z - from.z };
+        const length = Math.hypot(d.x, d.y, d.z) || 1;
+        let limit = Infinity;
+        (['x', 'y', 'z'] as const).forEach((axis, i) => {
+            const unit = Math.abs(d[axis]) / length;
+            if (unit > 1e-9) limit = Math.min(limit, (parseFloat(this.settings[`11${i}`]) || 500) / unit);
+        });
+        if (block.feed <= 0) return limit * (block.home ? 1 : this.rapidOverride / 100);
+        const override = block.jog || block.probe || block.home ? 100 : this.feedOverride;
+        return Math.min(block.feed * override / 100, limit);
+    }
+
+    private tick() {
+        const now = Date.now();
+        let budget = Math.min(now - this.lastTick, 200);
+        this.lastTick = now;
+        if (this.state !== 'Run' && this.state !== 'Jog' && this.state !== 'Home') return;
+
+        while (budget > 0 && this.planner.length > 0) {
+            const block = this.planner[0];
+            if (block.dwell !== undefined) {
+                block.dwell -= budget;
+                if (block.dwell > 0) return;
+                budget = -block.dwell;
+                this.finishBlock();
+                continue;
+            }
+            while (budget > 0 && block.segment < block.points.length - 1) {
+                const a = block.points[block.segment];
+                const b = block.points[block.segment + 1];
+                const length = Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+                const rate = this.rateFor(block, a, b) / 60000; // mm/ms
+                const step = Math.min(length - block.along, budget * rate);
+                budget -= rate > 0 ? step / rate : budget;
+                const before = { ...this.position };
+                block.along += step;
+                const t = length > 0 ? block.along / length : 1;
+                this.position = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+                if (block.probe && this.probeTriggered(block, before)) return;
+                if (block.along >= length - 1e-9) {
+                    block.segment++;
+                    block.along = 0;
+                }
+            }
+            if (block.segment >= block.points.length - 1) this.finishBlock();
+        }
+    }
+
+    // Stops a probe move where the probe crosses the workpiece surface
+    private probeTriggered(block: PlannerBlock, before: Vec3): boolean {
+        const touching = (p: Vec3) => this.inWorkpiece(p) === (block.probe === 'toward');
+        if (block.segment === 0 && block.along > 0 && touching(block.points[0])) {
+            this.alarm(4); // Already triggered before moving
+            this.emit('ok');
+            return true;
+        }
+        if (!touching(this.position)) return false;
+        let lo = before, hi = this.position;
+        for (let k = 0; k < 30; k++) {
+            const mid = { x: (lo.x + hi.x) / 2, y: (lo.y + hi.y) / 2, z: (lo.z + hi.z) / 2 };
+            if (touching(mid)) hi = mid; else lo = mid;
+        }
+        this.position = hi;
+        this.probe = { position: { ...hi }, success: true };
+        this.planner.shift();
+        this.parser = { ...this.parser, position: { ...hi } };
+        this.emit(this.probeReport());
+        this.lineDone();
+        return true;
+    }
+
+    private finishBlock() {
+        const block = this.planner.shift()!;
+        this.position = { ...block.points[block.points.length - 1] };
+        if (block.probe) {
+            this.probe = { position: { ...this.position }, success: false };
+            if (block.probeMustTrigger) {
+                this.alarm(5);
+                this.emit('ok');
+                return;
+            }
+            this.emit(this.probeReport());
+        }
+        if (block.home) {
+            this.parser = { ...this.parser, position: { ...this.position } };
+            this.state = 'Idle';
+        }
+        if (block.okWhenDone) {
+            this.lineDone();
+            return;
+        }
+        if (this.planner.length === 0 && (this.state === 'Run' || this.state === 'Jog')) this.state = 'Idle';
+        this.pump(); // Lines may have been waiting for room in the planner
+    }
+
+    private lineDone() {
+        this.busy = false;
+        if (this.planner.length === 0 && this.state !== 'Alarm' && this.state !== 'Hold') this.state = 'Idle';
+        this.emit('ok');
+        this.pump();
+    }
+
+    // --- Status ---
+
+    private statusReport(): string {
+        const p = this.parser;
+        const offset = p.offsets[p.coordinateSystem];
+        const wco = {
+            x: offset.x + p.g92Offset.x,
+            y: offset.y + p.g92Offset.y,
+            z: offset.z + p.g92Offset.z + p.toolLengthOffset,
+        };
+        const mask = parseInt(this.settings['10'], 10) || 0;
+        const moving = this.planner.length > 0 && (this.state === 'Run' || this.state === 'Jog' || this.state === 'Home');
+        const block = this.planner[0];
+        const feed = moving && block && block.dwell === undefined
+            ? this.rateFor(block, block.points[block.segment], block.points[Math.min(block.segment + 1, block.points.length - 1)])
+            : 0;
+        const spindle = p.spindle !== 'M5' && !this.spindleStopped ? p.spindleSpeed * this.spindleOverride / 100 : 0;
+
+        const fields = [this.subState !== undefined ? `${this.state}:${this.subState}` : this.state];
+        fields.push(mask & 1
+            ? `MPos:${fmtVec(this.position)}`
+            : `WPos:${fmtVec({ x: this.position.x - wco.x, y: this.position.y - wco.y, z: this.position.z - wco.z })}`);
+        if (mask & 2) fields.push(`Bf:${PLANNER_BLOCKS - this.planner.length},${RX_BUFFER_SIZE - 1 - this.rx.length}`);
+        if (moving && block?.lineNumber !== undefined) fields.push(`Ln:${block.lineNumber}`);
+        fields.push(`FS:${Math.round(feed)},${Math.round(spindle)}`);
+        if (this.inWorkpiece(this.position)) fields.push('Pn:P');
+
+        // Offsets and overrides rarely change, so GRBL only adds them every few reports
+        const count = this.reportCount;
+        this.reportCount = (this.reportCount + 1) % 10;
+        if (count === 0) {
+            fields.push(`WCO:${fmtVec(wco)}`);
+        } else if (count === 5) {
+            fields.push(`Ov:${this.feedOverride},${this.rapidOverride},${this.spindleOverride}`);
+            const accessories = (spindle > 0 ? (p.spindle === 'M3' ? 'S' : 'C') : '') + (p.flood ? 'F' : '') + (p.mist ? 'M' : '');
+            if (accessories) fields.push(`A:${accessories}`);
+        }
+        return `<${fields.join('|')}>`;
+    }
+}
@@ -0,0 +1,113 @@
+import { ProbeResult, MachinePosition } from '../types';
+import { serialService } from './serialService';
+
+// Probing routines run as a conversation with the controller: each probe
+// move is sent, its [PRB:...] report awaited, and the next moves worked out
+// from where the probe triggered. Work offsets are set with G10 L20 after
+// returning to the exact trigger point, so the overshoot while the machine
+// stops does not end up in the offset.
+
+export type ProbeCorner = 'X-Y-' | 'X+Y-' | 'X-Y+' | 'X+Y+';
+
+export interface ProbeSettings {
+    plateThickness: number; // mm, added to Z at the trigger point
+    maxTravel: number;      // Furthest a probe move may go, mm
+    fastFeed: number;       // First touch, mm/min
+    slowFeed: number;       // Re-probe, mm/min
+    retract: number;        // Back-off between and after touches, mm
+    toolDiameter: number;   // For XY: the edge is a radius away from the tool centre
+    clearance: number;      // For XY: how far to move off the corner before going down
+    depth: number;          // For XY: how far below the start to probe the sides
+    corner: ProbeCorner;    // Corner of the stock that becomes X0 Y0
+}
+
+export const DEFAULT_PROBE_SETTINGS: ProbeSettings = {
+    plateThickness: 10,
+    maxTravel: 30,
+    fastFeed: 200,
+    slowFeed: 25,
+    retract: 2,
+    toolDiameter: 6,
+    clearance: 10,
+    depth: 5,
+    corner: 'X-Y-',
+};
+
+const PROBE_SETTINGS_KEY = 'cncforge.probeSettings';
+
+export const loadProbeSettings = (): ProbeSettings => {
+    try {
+        const stored = localStorage.getItem(PROBE_SETTINGS_KEY);
+        if (stored) return { ...DEFAULT_PROBE_SETTINGS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.warn('Could not read the probe settings.', e);
+    }
+    return { ...DEFAULT_PROBE_SETTINGS };
+};
+
+export const saveProbeSettings = (settings: ProbeSettings) => {
+    try {
+        localStorage.setItem(PROBE_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn('Could not save the probe settings.', e);
+    }
+};
+
+const num = (v: number) => parseFloat(v.toFixed(4)).toString();
+
+// Sends one G38.2 move and waits for where it triggered
+const probe = async (move: string): Promise<ProbeResult> => {
+    const result = serialService.waitForProbe();
+    await serialService.send(move);
+    const touched = await result;
+    if (!touched.success) throw new Error('Probe did not make contact');
+    return touched;
+};
+
+// Touches a plate on top of the stock twice, fast then slow, and sets work
+// Z so the trigger point reads as the plate thickness
+export const probeZ = async (s: ProbeSettings): Promise<ProbeResult> => {
+    await serialService.send('G21 G91');
+    await probe(`G38.2 Z-${num(s.maxTravel)} F${num(s.fastFeed)}`);
+    await serialService.send(`G0 Z${num(s.retract)}`);
+    const touched = await probe(`G38.2 Z-${num(s.retract * 2)} F${num(s.slowFeed)}`);
+    await serialService.send('G90');
+    await serialService.send(`G53 G0 Z${num(touched.z)}`);
+    await serialService.send(`G10 L20 P0 Z${num(s.plateThickness)}`);
+    await serialService.send(`G91 G0 Z${num(s.retract)}`);
+    await serialService.send('G90');
+    return touched;
+};
+
+// Touches one side of the stock from outside, moving along `axis` in
+// direction `dir`, and sets that axis so the edge reads as zero
+const probeEdge = async (s: ProbeSettings, axis: 'X' | 'Y', dir: 1 | -1, start: MachinePosition) => {
+    const radius = s.toolDiameter / 2;
+    const key = axis === 'X' ? 'x' : 'y';
+    await serialService.send('G21 G91');
+    await serialService.send(`G0 ${axis}${num(-dir * s.clearance)}`);
+    await serialService.send(`G0 Z${num(-s.depth)}`);
+    await probe(`G38.2 ${axis}${num(dir * s.maxTravel)} F${num(s.fastFeed)}`);
+    await serialService.send(`G0 ${axis}${num(-dir * s.retract)}`);
+    const touched = await probe(`G38.2 ${axis}${num(dir * s.retract * 2)} F${num(s.slowFeed)}`);
+    await serialService.send('G90');
+    await serialService.send(`G53 G0 ${axis}${num(touched[key])}`);
+    await serialService.send(`G10 L20 P0 ${axis}${num(-dir * radius)}`);
+    await serialService.send(`G91 G0 ${axis}${num(-dir * s.retract)}`);
+    await serialService.send(`G0 Z${num(s.depth)}`);
+    await serialService.send('G90');
+    await serialService.send(`G53 G0 X${start.x} Y${start.y}`);
+    return touched;
+};
+
+// Finds the corner of the stock from a start above it, near the corner:
+// each side is touched from outside below the start height, and the corner
+// becomes X0 Y0 of the active work coordinate system
+export const probeCorner = async (s: ProbeSettings, start: MachinePosition) => {
+    // The probe moves towards the stock, which lies on the far side of the corner
+    const dirX = s.corner.startsWith('X-') ? 1 : -1;
+    const dirY = s.corner.endsWith('Y-') ? 1 : -1;
+    const x = await probeEdge(s, 'X', dirX, start);
+    const y = await probeEdge(s, 'Y', dirY, start);
+    return { x: x.x, y: y.y };
+};
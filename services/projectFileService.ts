@@ -0,0 +1,139 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProjectData, CuttingTool, ToolFeeds, ToolLibrary, Shape, ShapeType, GroupShape, Unit } from '../types';
+import { findTool, nextToolNumber } from './toolLibraryService';
+
+export const PROJECT_EXTENSION = '.cncforge';
+
+const FORMAT = 'cncforge';
+// Bump whenever the saved structure changes, and add a migration from the previous version
+const CURRENT_VERSION = 1;
+
+interface ProjectFile {
+    format: typeof FORMAT;
+    version: number;
+    savedAt: string;
+    project: ProjectData;
+    tools: CuttingTool[]; // Library entries the operations refer to, so the file opens elsewhere
+}
+
+type RawFile = { version: number, [key: string]: any };
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1
+const MIGRATIONS: Record<number, (file: RawFile) => RawFile> = {};
+
+const collectToolIds = (shapes: Shape[], ids: Set<string>) => {
+    shapes.forEach(shape => {
+        if (shape.operation?.toolId) ids.add(shape.operation.toolId);
+        if (shape.type === ShapeType.GROUP) collectToolIds((shape as GroupShape).children, ids);
+    });
+    return ids;
+};
+
+const remapToolIds = (shapes: Shape[], ids: Map<string, string>): Shape[] =>
+    shapes.map(shape => {
+        const toolId = shape.operation?.toolId;
+        let next = toolId && ids.has(toolId) ? { ...shape, operation: { ...shape.operation!, toolId: ids.get(toolId) } } : shape;
+        if (next.type === ShapeType.GROUP) next = { ...next, children: remapToolIds((next as GroupShape).children, ids) } as GroupShape;
+        return next;
+    });
+
+const feedsKey = (feeds: Record<string, ToolFeeds> = {}) =>
+    JSON.stringify(Object.keys(feeds).sort().map(m => [m, feeds[m].feedRate, feeds[m].plungeRate, feeds[m].spindleSpeed]));
+
+// Same cutter and cutting data; the name and T number may differ between machines
+const sameCutter = (a: CuttingTool, b: CuttingTool) =>
+    a.type === b.type && a.diameter === b.diameter && a.flutes === b.flutes && a.angle === b.angle && feedsKey(a.feeds) === feedsKey(b.feeds);
+
+// Adds the tools a project file carries to the library. A tool whose id is
+// taken by a different cutter here is not replaced by the local one: it is
+// matched to an identical library tool, or added under a new id, and the
+// project's operations are pointed at it. A new tool whose T number is taken
+// gets the next free one. Tools that changed come back in `remapped`.
+export const mergeProjectTools = (project: ProjectData, tools: CuttingTool[], library: ToolLibrary): { project: ProjectData, library: ToolLibrary, remapped: CuttingTool[] } => {
+    const ids = new Map<string, string>();
+    const remapped: CuttingTool[] = [];
+    let merged = library;
+    tools.forEach(tool => {
+        const local = findTool(merged, tool.id);
+        if (local && sameCutter(local, tool)) return;
+        if (!local) {
+            const numberTaken = merged.tools.some(t => t.number === tool.number);
+            const added = numberTaken ? { ...tool, number: nextToolNumber(merged) } : tool;
+            merged = { ...merged, tools: [...merged.tools, added] };
+            if (numberTaken) remapped.push(added);
+            return;
+        }
+        let target = merged.tools.find(t => sameCutter(t, tool));
+        if (!target) {
+            const number = merged.tools.some(t => t.number === tool.number) ? nextToolNumber(merged) : tool.number;
+            target = { ...tool, id: uuidv4(), number };
+            merged = { ...merged, tools: [...merged.tools, target] };
+        }
+        ids.set(tool.id, target.id);
+        remapped.push(target);
+    });
+    return {
+        project: ids.size > 0 ? { ...project, shapes: remapToolIds(project.shapes, ids) } : project,
+        library: merged,
+        remapped,
+    };
+};
+
+// Throws on shapes the editor could not draw or machine
+const checkShapes = (shapes: any[]) => {
+    shapes.forEach(shape => {
+        if (!shape || typeof shape !== 'object' || !Object.values(ShapeType).includes(shape.type)) {
+            throw new Error(`The project file has a shape of unknown type${shape?.type !== undefined ? ` "${shape.type}"` : ''}.`);
+        }
+        if (shape.type === ShapeType.GROUP) {
+            if (!Array.isArray(shape.children)) throw new Error('The project file has a group without a list of shapes.');
+            checkShapes(shape.children);
+        }
+    });
+};
+
+export const serializeProject = (project: ProjectData, library: ToolLibrary): string => {
+    const tools = [...collectToolIds(project.shapes, new Set())]
+        .map(id => findTool(library, id))
+        .filter((tool): tool is CuttingTool => !!tool);
+    const file: ProjectFile = { format: FORMAT, version: CURRENT_VERSION, savedAt: new Date().toISOString(), project, tools };
+    return JSON.stringify(file, null, 2);
+};
+
+// Reads a project file of any known version. Throws with a message fit for the user.
+export const parseProjectFile = (text: string): { project: ProjectData, tools: CuttingTool[] } => {
+    let raw: RawFile;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('This is not a CNC Forge project file (invalid JSON).');
+    }
+    if (!raw || raw.format !== FORMAT || typeof raw.version !== 'number') {
+        throw new Error('This is not a CNC Forge project file.');
+    }
+    if (raw.version > CURRENT_VERSION) {
+        throw new Error(`This project was saved by a newer version of CNC Forge (format ${raw.version}). Please update the app to open it.`);
+    }
+    while (raw.version < CURRENT_VERSION) {
+        const migrate = MIGRATIONS[raw.version];
+        if (!migrate) throw new Error(`Project format ${raw.version} is no longer supported.`);
+        raw = migrate(raw);
+    }
+
+    const project = raw.project || {};
+    if (!Array.isArray(project.shapes)) {
+        throw new Error('The project file has no shapes.');
+    }
+    checkShapes(project.shapes);
+    return {
+        project: {
+            shapes: project.shapes,
+            gcode: typeof project.gcode === 'string' ? project.gcode : '',
+            isManualMode: !!project.isManualMode,
+            canvasSize: project.canvasSize || { width: 3050, height: 2150 },
+            gridSize: project.gridSize || 10,
+            unit: Object.values(Unit).includes(project.unit) ? project.unit : Unit.MM,
+        },
+        tools: Array.isArray(raw.tools) ? raw.tools : []
+    };
+};
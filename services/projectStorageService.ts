@@ -0,0 +1,70 @@
+import { ProjectData, ProjectSnapshot } from '../types';
+
+const DB_NAME = 'cncforge';
+const DB_VERSION = 1;
+const STORE = 'snapshots';
+
+// Oldest snapshots are dropped beyond this many
+const MAX_SNAPSHOTS = 30;
+// Autosaves within this long of the current snapshot overwrite it instead of adding another
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const request = action(tx.objectStore(STORE));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+// All snapshots, newest first
+export const listSnapshots = async (): Promise<ProjectSnapshot[]> => {
+    const all = await run<ProjectSnapshot[]>('readonly', store => store.getAll() as IDBRequest<ProjectSnapshot[]>);
+    return all.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const deleteSnapshot = (id: number) => run('readwrite', store => store.delete(id));
+
+// The snapshot this session is writing to. A new one is started every
+// SNAPSHOT_INTERVAL_MS so earlier states stay available for rolling back.
+let current: { id: number, startedAt: number } | null = null;
+
+export const autosaveProject = async (project: ProjectData): Promise<void> => {
+    const now = Date.now();
+    if (current && now - current.startedAt < SNAPSHOT_INTERVAL_MS) {
+        await run('readwrite', store => store.put({ id: current!.id, savedAt: now, project }));
+        return;
+    }
+    const id = await run('readwrite', store => store.add({ savedAt: now, project }));
+    current = { id: id as number, startedAt: now };
+
+    const snapshots = await listSnapshots();
+    for (const old of snapshots.slice(MAX_SNAPSHOTS)) {
+        await deleteSnapshot(old.id);
+    }
+};
@@ -0,0 +1,127 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ImageShape, RasterSettings, ShapeType } from '../types';
+import { Bitmap } from './bitmapTraceService';
+
+export const DEFAULT_RASTER_SETTINGS: RasterSettings = {
+    lineInterval: 0.1,
+    overscan: 3,
+    bidirectional: true,
+    minPower: 0,
+};
+
+// One run of constant power along a scan line
+export interface RasterRun {
+    x0: number;
+    x1: number;
+    power: number;
+}
+
+// A scan line in cutting direction: runs are ordered from `from` towards `to`
+export interface RasterLine {
+    y: number;
+    from: number; // Start of the overscan
+    to: number;   // End of the overscan
+    runs: RasterRun[];
+}
+
+export const encodePixels = (pixels: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < pixels.length; i += 0x8000) {
+        binary += String.fromCharCode(...pixels.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const decodeCache = new Map<string, Uint8Array>();
+
+export const decodePixels = (encoded: string): Uint8Array => {
+    const cached = decodeCache.get(encoded);
+    if (cached) return cached;
+    const binary = atob(encoded);
+    const pixels = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) pixels[i] = binary.charCodeAt(i);
+    // Only the most recent images are worth keeping
+    if (decodeCache.size > 8) decodeCache.clear();
+    decodeCache.set(encoded, pixels);
+    return pixels;
+};
+
+// Grey levels of an RGBA bitmap; transparent pixels count as white
+export const bitmapToImageShape = (image: Bitmap, width: number, origin: { x: number, y: number }, name?: string): ImageShape => {
+    const pixels = new Uint8Array(image.width * image.height);
+    for (let i = 0; i < pixels.length; i++) {
+        const [r, g, b, a] = [image.data[i * 4], image.data[i * 4 + 1], image.data[i * 4 + 2], image.data[i * 4 + 3] / 255];
+        pixels[i] = Math.round((0.299 * r + 0.587 * g + 0.114 * b) * a + 255 * (1 - a));
+    }
+    return {
+        id: uuidv4(), type: ShapeType.IMAGE, name,
+        x: origin.x, y: origin.y, width, height: width * image.height / image.width,
+        pixelWidth: image.width, pixelHeight: image.height,
+        pixels: encodePixels(pixels),
+        raster: { ...DEFAULT_RASTER_SETTINGS },
+    };
+};
+
+// Scan lines for engraving an image with a laser whose full power is
+// maxPower. White is never burnt; other greys scale from minPower up to
+// maxPower at black. Blank lines are left out and blank margins trimmed.
+// With bidirectional scanning every other engraved line runs right to left.
+export const rasterLines = (shape: ImageShape, maxPower: number, offsetX: number = 0, offsetY: number = 0): RasterLine[] => {
+    const { lineInterval, overscan, bidirectional, minPower } = shape.raster;
+    const pixels = decodePixels(shape.pixels);
+    const x0 = shape.x + offsetX;
+    const y0 = shape.y + offsetY;
+    const pixelSize = shape.width / shape.pixelWidth;
+    const power = (grey: number) => grey >= 255 ? 0 : Math.round(minPower + (maxPower - minPower) * (1 - grey / 255));
+
+    const count = Math.max(1, Math.round(shape.height / Math.max(lineInterval, 0.01)));
+    const lines: RasterLine[] = [];
+    for (let k = 0; k < count; k++) {
+        const y = y0 + (k + 0.5) * shape.height / count;
+        const row = Math.min(shape.pixelHeight - 1, Math.floor((k + 0.5) / count * shape.pixelHeight));
+
+        const runs: RasterRun[] = [];
+        for (let col = 0; col < shape.pixelWidth; col++) {
+            const p = power(pixels[row * shape.pixelWidth + col]);
+            const last = runs[runs.length - 1];
+            if (last && last.power === p) last.x1 = x0 + (col + 1) * pixelSize;
+            else runs.push({ x0: x0 + col * pixelSize, x1: x0 + (col + 1) * pixelSize, power: p });
+        }
+        while (runs.length > 0 && runs[0].power === 0) runs.shift();
+        while (runs.length > 0 && runs[runs.length - 1].power === 0) runs.pop();
+        if (runs.length === 0) continue;
+
+        const start = runs[0].x0, end = runs[runs.length - 1].x1;
+        if (bidirectional && lines.length % 2 === 1) {
+            lines.push({
+                y, from: end + overscan, to: start - overscan,
+                runs: runs.reverse().map(r => ({ x0: r.x1, x1: r.x0, power: r.power }))
+            });
+        } else {
+            lines.push({ y, from: start - overscan, to: end + overscan, runs });
+        }
+    }
+    return lines;
+};
+
+// Cached data URL of the grey levels, for showing the image on the canvas
+const urlCache = new Map<string, string>();
+
+export const imageShapeUrl = (shape: ImageShape): string => {
+    const cached = urlCache.get(shape.pixels);
+    if (cached) return cached;
+    const canvas = document.createElement('canvas');
+    canvas.width = shape.pixelWidth;
+    canvas.height = shape.pixelHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return '';
+    const data = ctx.createImageData(shape.pixelWidth, shape.pixelHeight);
+    decodePixels(shape.pixels).forEach((grey, i) => {
+        data.data.set([grey, grey, grey, 255], i * 4);
+    });
+    ctx.putImageData(data, 0, 0);
+    const url = canvas.toDataURL('image/png');
+    if (urlCache.size > 32) urlCache.clear();
+    urlCache.set(shape.pixels, url);
+    return url;
+};
@@ -1,8 +1,11 @@
 
-import { MachineStatus } from '../types';
+import { MachineStatus, MachinePosition, ProbeResult, MachineOverrides, MachineAccessories, StreamingMode, ErrorPolicy, JobError } from '../types';
+import { programLines } from './gcodeInterpreterService';
+import { buildResumePlan } from './jobResumeService';
+import { parseErrorCode, describeGrblError, parseAlarmCode, describeGrblAlarm, parseProbeResult } from './grblMessageService';
 
 // Web Serial API Type Definitions
-interface SerialPort {
+export interface SerialPort {
   open(options: { baudRate: number }): Promise<void>;
   close(): Promise<void>;
   readable: ReadableStream<Uint8Array> | null;
@@ -18,6 +21,38 @@ declare global {
   }
 }
 
+// Size of GRBL's serial receive buffer, which character counting keeps full
+const RX_BUFFER_SIZE = 128;
+const STREAMING_MODE_KEY = 'cncforge.streamingMode';
+const ERROR_POLICY_KEY = 'cncforge.errorPolicy';
+
+// A line written to GRBL whose ok or error has not come back yet
+interface SentLine {
+  text: string;
+  bytes: number;      // Including the newline
+  lineIndex?: number; // 0-based line in the job's G-code; absent for manual commands
+}
+
+const loadStreamingMode = (): StreamingMode => {
+  try {
+    const stored = localStorage.getItem(STREAMING_MODE_KEY);
+    if (stored === StreamingMode.SEND_RESPONSE) return StreamingMode.SEND_RESPONSE;
+  } catch (e) {
+    console.warn('Could not read the streaming mode.', e);
+  }
+  return StreamingMode.CHARACTER_COUNTING;
+};
+
+const loadErrorPolicy = (): ErrorPolicy => {
+  try {
+    const stored = localStorage.getItem(ERROR_POLICY_KEY);
+    if (stored && Object.values(ErrorPolicy).includes(stored as ErrorPolicy)) return stored as ErrorPolicy;
+  } catch (e) {
+    console.warn('Could not read the error policy.', e);
+  }
+  return ErrorPolicy.PAUSE;
+};
+
 export class SerialService {
   private port: SerialPort | null = null;
   private reader: ReadableStreamDefaultReader<string> | null = null;
@@ -26,37 +61,56 @@ export class SerialService {
   private onStatusUpdate: ((status: MachineStatus) => void) | null = null;
   private onLog: ((msg: string) => void) | null = null;
   private keepReading = false;
-  private statusInterval: number | null = null;
+  private statusInterval: ReturnType<typeof setInterval> | null = null;
 
   // Job Streaming State
-  private jobQueue: string[] = [];
+  private streamingMode = loadStreamingMode();
+  private errorPolicy = loadErrorPolicy();
+  private onJobError: ((error: JobError) => void) | null = null;
+  private jobError: JobError | null = null; // Waiting for skip, retry or abort
+  private jobQueue: { lineIndex: number, text: string }[] = [];
   private jobTotalLines = 0;
+  private jobAcknowledged = 0;
   private isJobRunning = false;
   private isPaused = false;
   private onJobProgress: ((current: number, total: number) => void) | null = null;
-  private pendingLine: string | null = null;
+  // Every line GRBL has yet to answer, oldest first. GRBL answers lines in
+  // order, so each ok or error belongs to the head of this queue.
+  private outstanding: SentLine[] = [];
+  private outstandingBytes = 0;
 
-  async connect(baudRate: number = 115200) {
-    if (!navigator.serial) {
+  // Status report fields GRBL only sends now and then, kept between reports
+  private wco = { x: 0, y: 0, z: 0 };
+  private overrides: MachineOverrides | undefined;
+  private accessories: MachineAccessories | undefined;
+  private alarm: number | undefined;
+  private lastError: MachineStatus['lastError'];
+  private probeWaiters: { resolve: (result: ProbeResult) => void, reject: (err: Error) => void }[] = [];
+
+  // Connects to a port the user picks, or to the given one (e.g. a simulated machine)
+  async connect(baudRate: number = 115200, port?: SerialPort) {
+    if (!port && !navigator.serial) {
       throw new Error('Web Serial API not supported');
     }
 
     try {
-      this.port = await navigator.serial.requestPort();
+      this.port = port || await navigator.serial.requestPort();
       await this.port.open({ baudRate });
       
       this.keepReading = true;
+      this.clearOutstanding();
+      this.clearReportState();
       this.readLoop();
       
       if (this.port.writable) {
         this.rawWriter = this.port.writable.getWriter();
       }
       
-      // Start polling status
-      this.statusInterval = window.setInterval(() => {
-          if (!this.isJobRunning || this.jobQueue.length % 20 === 0) { // Poll less frequently during high traffic?
-              this.send('?');
-          }
+      // Start polling status. '?' is a realtime command: it bypasses the
+      // receive buffer and must not be followed by a newline, which GRBL
+      // would answer with an extra ok.
+      this.statusInterval = setInterval(() => {
+          this.rawWriter?.write(new Uint8Array([0x3F]));
       }, 200);
 
       return true;
@@ -73,7 +127,8 @@ export class SerialService {
   async disconnect() {
     if (this.statusInterval) clearInterval(this.statusInterval);
     this.keepReading = false;
-    this.isJobRunning = false;
+    this.abortJob('Disconnected');
+    this.rejectProbeWaiters('Disconnected');
     
     if (this.reader) {
       await this.reader.cancel();
@@ -90,13 +145,55 @@ export class SerialService {
   }
 
   async send(data: string) {
+    if (!this.rawWriter) return;
+    // Realtime commands on their own take effect at once and get no reply
+    if (['?', '!', '~'].includes(data.trim())) {
+      await this.rawWriter.write(new TextEncoder().encode(data.trim()));
+      return;
+    }
+    await this.writeLine(data.trim());
+  }
+
+  // Writes a line and remembers it until GRBL answers
+  private async writeLine(text: string, lineIndex?: number) {
     if (!this.rawWriter) return;
     // GRBL expects \n or \r
-    const cmd = data.endsWith('\n') ? data : data + '\n';
-    // Manually encode to ensure we use the raw writer
-    const encoded = new TextEncoder().encode(cmd);
+    const encoded = new TextEncoder().encode(text + '\n');
+    this.outstanding.push({ text, bytes: encoded.length, lineIndex });
+    this.outstandingBytes += encoded.length;
+    if (this.onLog) this.onLog(`> ${text}`);
     await this.rawWriter.write(encoded);
-    if (this.onLog && data !== '?') this.onLog(`> ${data.trim()}`);
+  }
+
+  getStreamingMode() {
+      return this.streamingMode;
+  }
+
+  getErrorPolicy() {
+      return this.errorPolicy;
+  }
+
+  // The error a paused job is waiting on a decision for, if any
+  getJobError() {
+      return this.jobError;
+  }
+
+  setErrorPolicy(policy: ErrorPolicy) {
+      this.errorPolicy = policy;
+      try {
+          localStorage.setItem(ERROR_POLICY_KEY, policy);
+      } catch (e) {
+          console.warn('Could not save the error policy.', e);
+      }
+  }
+
+  setStreamingMode(mode: StreamingMode) {
+      this.streamingMode = mode;
+      try {
+          localStorage.setItem(STREAMING_MODE_KEY, mode);
+      } catch (e) {
+          console.warn('Could not save the streaming mode.', e);
+      }
   }
 
   // Send a single byte (e.g., for Real-time commands like 0x85 Jog Cancel)
@@ -106,6 +203,36 @@ export class SerialService {
       if (this.onLog) this.onLog(`> [RT: 0x${val.toString(16).toUpperCase()}]`);
   }
 
+  // Feed and spindle overrides can only be reset to 100% or stepped by 10%
+  // and 1%, so a target is reached by resetting and stepping from there
+  async setOverride(kind: 'feed' | 'spindle', percent: number) {
+      if (!this.rawWriter) return;
+      const [reset, up10, down10, up1, down1] = kind === 'feed' ? [0x90, 0x91, 0x92, 0x93, 0x94] : [0x99, 0x9A, 0x9B, 0x9C, 0x9D];
+      const target = Math.max(10, Math.min(200, Math.round(percent)));
+      const diff = target - 100;
+      const tens = Math.trunc(diff / 10);
+      const ones = diff - tens * 10;
+      const bytes = [
+          reset,
+          ...new Array(Math.abs(tens)).fill(tens > 0 ? up10 : down10),
+          ...new Array(Math.abs(ones)).fill(ones > 0 ? up1 : down1),
+      ];
+      await this.rawWriter.write(new Uint8Array(bytes));
+      this.onLog?.(`> [RT: ${kind} override ${target}%]`);
+  }
+
+  // Resolves with the next [PRB:...] report. Call before sending the probe
+  // command; an error, alarm, reset or disconnect first rejects it.
+  waitForProbe(): Promise<ProbeResult> {
+      return new Promise((resolve, reject) => this.probeWaiters.push({ resolve, reject }));
+  }
+
+  private rejectProbeWaiters(reason: string) {
+      const waiters = this.probeWaiters;
+      this.probeWaiters = [];
+      waiters.forEach(w => w.reject(new Error(reason)));
+  }
+
   setCallbacks(onStatus: (s: MachineStatus) => void, onLog: (msg: string) => void) {
       this.onStatusUpdate = onStatus;
       this.onLog = onLog;
@@ -113,61 +240,167 @@ export class SerialService {
 
   // --- Job Control ---
 
-  startJob(gcode: string, onProgress: (current: number, total: number) => void) {
+  // Streams the program, or with `fromLine` (0-based) only the lines from
+  // there on, after a preamble that restores the state the program was in
+  startJob(gcode: string, onProgress: (current: number, total: number) => void, onError?: (error: JobError) => void, fromLine?: number) {
       if (this.isJobRunning) return;
       
-      // Filter empty lines and comments
-      this.jobQueue = gcode.split('\n')
-        .map(l => l.trim())
-        .filter(l => l.length > 0 && !l.startsWith(';') && !l.startsWith('('));
+      // Comments and blank lines never reach the controller
+      this.jobQueue = programLines(gcode);
+      if (fromLine) {
+          const plan = buildResumePlan(gcode, fromLine);
+          this.jobQueue = [
+              ...plan.preamble.map(text => ({ lineIndex: fromLine, text })),
+              ...plan.lines,
+          ];
+      }
       
       this.jobTotalLines = this.jobQueue.length;
+      this.jobAcknowledged = 0;
       this.onJobProgress = onProgress;
+      this.onJobError = onError || null;
+      this.jobError = null;
       this.isJobRunning = true;
       this.isPaused = false;
-      this.pendingLine = null;
       
-      this.onLog?.('Starting Job...');
-      this.sendNextLine();
+      this.onJobProgress(0, this.jobTotalLines);
+      this.onLog?.(`Starting Job${fromLine ? ` from line ${fromLine + 1}` : ''} (${this.streamingMode === StreamingMode.CHARACTER_COUNTING ? 'character counting' : 'send-response'})...`);
+      this.fillBuffer();
   }
 
   pauseJob() {
       if (!this.isJobRunning) return;
       this.isPaused = !this.isPaused;
+      if (!this.isPaused) this.jobError = null; // Resuming by hand skips a failed line
       // '!' is Feed Hold, '~' is Cycle Start
       this.sendByte(this.isPaused ? 0x21 : 0x7E); 
       this.onLog?.(this.isPaused ? 'Job Paused' : 'Job Resumed');
       if (!this.isPaused) {
-          this.sendNextLine(); // Try to resume queue if idle
+          this.fillBuffer(); // Try to resume queue if idle
       }
   }
 
   stopJob() {
       this.isJobRunning = false;
+      this.jobError = null;
       this.jobQueue = [];
-      this.pendingLine = null;
       this.sendByte(0x18); // Soft Reset (Ctrl-X)
+      this.clearOutstanding(); // The reset empties GRBL's buffer
       this.onLog?.('Job Stopped');
       if (this.onJobProgress) this.onJobProgress(0, this.jobTotalLines);
   }
 
-  private sendNextLine() {
-      if (!this.isJobRunning || this.isPaused || this.pendingLine) return;
+  // Carries on after a job error that paused the job: skipping leaves the
+  // failed line out, retrying sends it again before anything else
+  resumeAfterError(action: 'skip' | 'retry') {
+      const error = this.jobError;
+      if (!error || !this.isJobRunning) return;
+      this.jobError = null;
+      this.isPaused = false;
+      if (action === 'retry' && error.canRetry) {
+          this.jobQueue.unshift({ lineIndex: error.lineIndex, text: error.text });
+          this.jobAcknowledged--;
+      }
+      this.onLog?.(action === 'retry' ? `Retrying line ${error.lineIndex + 1}` : `Skipped line ${error.lineIndex + 1}`);
+      this.sendByte(0x7E); // Cycle Start
+      this.fillBuffer();
+  }
 
-      if (this.jobQueue.length === 0) {
+  // Applies the error policy to a job line GRBL rejected
+  private handleJobError(line: SentLine, response: string) {
+      const code = parseErrorCode(response) ?? 0;
+      const error: JobError = {
+          lineIndex: line.lineIndex!,
+          text: line.text,
+          code,
+          message: describeGrblError(code),
+          canRetry: !this.jobLinesOutstanding(),
+      };
+      this.onLog?.(`ERROR: ${response} on line ${error.lineIndex + 1}: ${error.text} (${error.message})`);
+
+      if (this.errorPolicy === ErrorPolicy.CONTINUE) {
+          this.fillBuffer();
+          return;
+      }
+      if (this.errorPolicy === ErrorPolicy.STOP) {
+          this.stopJob();
+          this.onJobError?.({ ...error, canRetry: false });
+          return;
+      }
+      this.isPaused = true;
+      this.jobError = error;
+      this.sendByte(0x21); // Feed Hold
+      this.onLog?.('Job Paused');
+      this.onJobError?.(error);
+  }
+
+  // Ends a job the controller can no longer carry on with, reporting it
+  // against the oldest line not yet answered like an error that stopped it
+  private abortJob(message: string) {
+      if (!this.isJobRunning) return;
+      const line = this.outstanding.find(l => l.lineIndex !== undefined) ?? this.jobQueue[0] ?? { lineIndex: 0, text: '' };
+      this.isJobRunning = false;
+      this.isPaused = false;
+      this.jobError = null;
+      this.jobQueue = [];
+      this.onLog?.(`ERROR: ${message.replace(/\.$/, '')}. Job stopped at line ${line.lineIndex! + 1}.`);
+      this.onJobError?.({ lineIndex: line.lineIndex!, text: line.text, code: 0, message, canRetry: false });
+  }
+
+  private clearReportState() {
+      this.wco = { x: 0, y: 0, z: 0 };
+      this.overrides = undefined;
+      this.accessories = undefined;
+      this.alarm = undefined;
+      this.lastError = undefined;
+  }
+
+  private clearOutstanding() {
+      this.outstanding = [];
+      this.outstandingBytes = 0;
+  }
+
+  private jobLinesOutstanding() {
+      return this.outstanding.some(l => l.lineIndex !== undefined);
+  }
+
+  // Sends as many job lines as the streaming mode allows: with character
+  // counting, as long as the unanswered lines fit in GRBL's receive buffer
+  // (leaving a byte spare, like GRBL's own stream.py); with send-response,
+  // only when GRBL has answered everything.
+  private fillBuffer() {
+      if (!this.isJobRunning || this.isPaused) return;
+
+      while (this.jobQueue.length > 0) {
+          const next = this.jobQueue[0];
+          const bytes = next.text.length + 1;
+          const fits = this.streamingMode === StreamingMode.CHARACTER_COUNTING
+              ? this.outstandingBytes + bytes < RX_BUFFER_SIZE - 1
+              : this.outstanding.length === 0;
+          // A line too long for the buffer still goes once the buffer is empty
+          if (!fits && this.outstanding.length > 0) break;
+          this.jobQueue.shift();
+          this.writeLine(next.text, next.lineIndex)
+              .catch(e => this.abortJob(`Could not send to the controller: ${e?.message || e}`));
+      }
+
+      if (this.jobQueue.length === 0 && !this.jobLinesOutstanding()) {
           this.isJobRunning = false;
           this.onLog?.('Job Completed');
           if (this.onJobProgress) this.onJobProgress(this.jobTotalLines, this.jobTotalLines);
-          return;
       }
+  }
 
-      const line = this.jobQueue.shift();
-      if (line) {
-          this.pendingLine = line;
-          this.send(line);
-          const current = this.jobTotalLines - this.jobQueue.length;
-          if (this.onJobProgress) this.onJobProgress(current, this.jobTotalLines);
+  // Matches an ok or error to the line it answers
+  private acknowledge(): SentLine | undefined {
+      const line = this.outstanding.shift();
+      if (!line) return undefined;
+      this.outstandingBytes -= line.bytes;
+      if (line.lineIndex !== undefined && this.isJobRunning) {
+          this.jobAcknowledged++;
+          if (this.onJobProgress) this.onJobProgress(this.jobAcknowledged, this.jobTotalLines);
       }
+      return line;
   }
 
   // --- Read Loop ---
@@ -176,7 +409,8 @@ export class SerialService {
     if (!this.port?.readable) return;
     
     const textDecoder = new TextDecoderStream();
-    const readableStreamClosed = this.port.readable.pipeTo(textDecoder.writable);
+    // Cancelling the reader on disconnect rejects the pipe
+    this.port.readable.pipeTo(textDecoder.writable).catch(() => {});
     this.reader = textDecoder.readable.getReader();
 
     try {
@@ -205,52 +439,141 @@ export class SerialService {
 
       // Handle 'ok' response for streaming
       if (cleanLine === 'ok') {
-          this.pendingLine = null;
+          this.acknowledge();
           if (this.isJobRunning) {
-              this.sendNextLine();
+              this.fillBuffer();
           }
       } 
       // Handle Errors
       else if (cleanLine.toLowerCase().startsWith('error')) {
-          this.onLog?.(`ERROR: ${cleanLine}`);
-          // Decide if we stop job on error. Usually safest to stop or pause.
-          // For now, we log and try to continue (risky) or stop.
-          // Let's just clear pending so queue continues, but user sees error.
-          this.pendingLine = null; 
-          if (this.isJobRunning) this.sendNextLine(); 
+          const sent = this.acknowledge();
+          const code = parseErrorCode(cleanLine);
+          if (code !== null) this.lastError = { code, command: sent?.text };
+          this.rejectProbeWaiters(`${cleanLine}${code !== null ? `: ${describeGrblError(code)}` : ''}`);
+          if (sent?.lineIndex !== undefined && this.isJobRunning) {
+              this.handleJobError(sent, cleanLine);
+          } else {
+              this.onLog?.(`ERROR: ${cleanLine}${sent ? ` (${sent.text})` : ''}${code !== null ? `: ${describeGrblError(code)}` : ''}`);
+              if (this.isJobRunning) this.fillBuffer();
+          }
+      }
+      // The welcome message follows a reset, which empties the receive buffer
+      else if (cleanLine.startsWith('Grbl ')) {
+          this.abortJob('Controller was reset');
+          this.clearOutstanding();
+          this.rejectProbeWaiters('Controller was reset');
+      }
+      else if (cleanLine.startsWith('[PRB:')) {
+          const result = parseProbeResult(cleanLine);
+          if (!result) {
+              this.rejectProbeWaiters('Unreadable probe report');
+          } else {
+              const waiters = this.probeWaiters;
+              this.probeWaiters = [];
+              waiters.forEach(w => w.resolve(result));
+          }
       }
 
       if (cleanLine.startsWith('<')) {
         this.parseStatus(cleanLine);
+      } else if (parseAlarmCode(cleanLine) !== null) {
+        this.alarm = parseAlarmCode(cleanLine)!;
+        this.onLog?.(`ALARM:${this.alarm}: ${describeGrblAlarm(this.alarm)}`);
+        this.rejectProbeWaiters(`ALARM:${this.alarm}: ${describeGrblAlarm(this.alarm)}`);
+        // GRBL locks out every further line until the alarm is cleared
+        this.abortJob(`ALARM:${this.alarm}: ${describeGrblAlarm(this.alarm)}`);
       } else {
         if (this.onLog) this.onLog(`< ${cleanLine}`);
       }
     }
   }
 
+  // Reads a `<State|MPos:...|FS:...|...>` report. GRBL sends either MPos or
+  // WPos depending on $10, and WCO only every few reports, so the other
+  // position comes from the last offset seen.
   private parseStatus(line: string) {
       const content = line.replace('<', '').replace('>', '');
       const parts = content.split('|');
-      const state = parts[0] as MachineStatus['state'];
-      
-      let pos = { x: '0.000', y: '0.000', z: '0.000' };
+      const [stateName, subState] = parts[0].split(':');
+      const state = stateName as MachineStatus['state'];
+
+      let reported: { kind: 'MPos' | 'WPos', x: number, y: number, z: number } | null = null;
       let feed = '0';
       let spindle = '0';
+      let buffer: MachineStatus['buffer'];
+      let pins = '';
+      let lineNumber: number | undefined;
+      let accessoryField: string | null = null;
 
-      parts.slice(1).forEach(part => {
-          if (part.startsWith('MPos:') || part.startsWith('WPos:')) {
-              const coords = part.split(':')[1].split(',');
-              pos = { x: coords[0], y: coords[1], z: coords[2] };
-          }
-          if (part.startsWith('FS:')) {
-              const fs = part.split(':')[1].split(',');
-              feed = fs[0];
-              spindle = fs[1];
+      for (const part of parts.slice(1)) {
+          const [key, value = ''] = part.split(':');
+          const nums = value.split(',').map(Number);
+          switch (key) {
+              case 'MPos':
+              case 'WPos':
+                  reported = { kind: key, x: nums[0], y: nums[1], z: nums[2] };
+                  break;
+              case 'WCO':
+                  this.wco = { x: nums[0], y: nums[1], z: nums[2] };
+                  break;
+              case 'FS':
+              case 'F':
+                  [feed, spindle = '0'] = value.split(',');
+                  break;
+              case 'Ov':
+                  this.overrides = { feed: nums[0], rapid: nums[1], spindle: nums[2] };
+                  // A: comes with Ov and is left out when nothing is on
+                  if (accessoryField === null) accessoryField = '';
+                  break;
+              case 'A':
+                  accessoryField = value;
+                  break;
+              case 'Bf':
+                  buffer = { blocks: nums[0], bytes: nums[1] };
+                  break;
+              case 'Pn':
+                  pins = value;
+                  break;
+              case 'Ln':
+                  lineNumber = nums[0];
+                  break;
           }
-      });
+      }
+
+      if (accessoryField !== null) {
+          this.accessories = {
+              spindle: accessoryField.includes('S') ? 'CW' : accessoryField.includes('C') ? 'CCW' : null,
+              flood: accessoryField.includes('F'),
+              mist: accessoryField.includes('M'),
+          };
+      }
+      if (state !== 'Alarm') this.alarm = undefined;
+
+      const format = (p: { x: number, y: number, z: number }): MachinePosition =>
+          ({ x: p.x.toFixed(3), y: p.y.toFixed(3), z: p.z.toFixed(3) });
+      const r = reported;
+      const wco = this.wco;
+      // WPos = MPos - WCO
+      const machine = !r ? null : r.kind === 'MPos' ? r : { x: r.x + wco.x, y: r.y + wco.y, z: r.z + wco.z };
+      const work = !r ? null : r.kind === 'WPos' ? r : { x: r.x - wco.x, y: r.y - wco.y, z: r.z - wco.z };
 
       if (this.onStatusUpdate) {
-          this.onStatusUpdate({ state, pos, feed, spindle });
+          this.onStatusUpdate({
+              state,
+              subState: subState !== undefined ? parseInt(subState, 10) : undefined,
+              pos: work ? format(work) : { x: '0.000', y: '0.000', z: '0.000' },
+              machinePos: machine ? format(machine) : undefined,
+              wco: format(wco),
+              feed,
+              spindle,
+              overrides: this.overrides,
+              buffer,
+              pins,
+              lineNumber,
+              accessories: this.accessories,
+              alarm: this.alarm,
+              lastError: this.lastError,
+          });
       }
   }
 }
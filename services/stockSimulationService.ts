@@ -0,0 +1,124 @@
+import { ToolType } from '../types';
+import { Vec3 } from './gcodeInterpreterService';
+
+// Block of material with its top face at Z0, like the generated programs expect
+export interface StockSettings {
+    x: number;      // Corner with the smallest X and Y
+    y: number;
+    width: number;  // Along X, mm
+    length: number; // Along Y, mm
+    thickness: number;
+}
+
+export interface SimulationTool {
+    type: ToolType.FLAT | ToolType.BALL | ToolType.VBIT;
+    diameter: number; // mm
+    angle: number;    // Included angle of V-bits, degrees
+}
+
+// Top surface of the stock on a regular grid of square cells
+export interface Heightmap {
+    x0: number;
+    y0: number;
+    cell: number; // Cell size, mm
+    cols: number;
+    rows: number;
+    bottom: number;
+    heights: Float32Array; // Row by row from y0; 0 is the uncut top
+}
+
+// Cells on the longer side of the stock; finer grids get slow to cut and draw
+const MAX_CELLS = 400;
+
+export const createHeightmap = (stock: StockSettings, tool: SimulationTool): Heightmap => {
+    // Resolve the tool to at least a few cells across where the stock allows
+    const cell = Math.max(Math.max(stock.width, stock.length) / MAX_CELLS, Math.min(tool.diameter / 8, 0.25), 0.01);
+    const cols = Math.max(1, Math.ceil(stock.width / cell));
+    const rows = Math.max(1, Math.ceil(stock.length / cell));
+    return { x0: stock.x, y0: stock.y, cell, cols, rows, bottom: -stock.thickness, heights: new Float32Array(cols * rows) };
+};
+
+interface KernelCell {
+    di: number;
+    dj: number;
+    dz: number; // Height of the cutter surface above its tip
+}
+
+// Cutter profile sampled on the grid around the tool centre
+const toolKernel = (tool: SimulationTool, cell: number): KernelCell[] => {
+    const r = tool.diameter / 2;
+    const reach = Math.ceil(r / cell);
+    const slope = 1 / Math.tan((Math.max(1, Math.min(179, tool.angle)) * Math.PI / 180) / 2);
+    const kernel: KernelCell[] = [];
+    for (let dj = -reach; dj <= reach; dj++) {
+        for (let di = -reach; di <= reach; di++) {
+            const d = Math.hypot(di, dj) * cell;
+            if (d > r && !(di === 0 && dj === 0)) continue;
+            const dz = tool.type === ToolType.BALL ? r - Math.sqrt(Math.max(0, r * r - d * d))
+                : tool.type === ToolType.VBIT ? d * slope
+                : 0;
+            kernel.push({ di, dj, dz });
+        }
+    }
+    return kernel;
+};
+
+const kernelCache = new WeakMap<Heightmap, { tool: SimulationTool, kernel: KernelCell[] }>();
+
+const kernelFor = (map: Heightmap, tool: SimulationTool) => {
+    const cached = kernelCache.get(map);
+    if (cached && cached.tool === tool) return cached.kernel;
+    const kernel = toolKernel(tool, map.cell);
+    kernelCache.set(map, { tool, kernel });
+    return kernel;
+};
+
+// Lowers the surface wherever the tool passes on its way from `a` to `b`
+export const cutSegment = (map: Heightmap, tool: SimulationTool, a: Vec3, b: Vec3) => {
+    if (Math.min(a.z, b.z) >= 0) return;
+    const kernel = kernelFor(map, tool);
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / (map.cell / 2)));
+    for (let s = 0; s <= steps; s++) {
+        const t = s / steps;
+        const z = a.z + (b.z - a.z) * t;
+        if (z >= 0) continue;
+        const ci = Math.floor((a.x + (b.x - a.x) * t - map.x0) / map.cell);
+        const cj = Math.floor((a.y + (b.y - a.y) * t - map.y0) / map.cell);
+        for (const k of kernel) {
+            const i = ci + k.di, j = cj + k.dj;
+            if (i < 0 || j < 0 || i >= map.cols || j >= map.rows) continue;
+            const index = j * map.cols + i;
+            const h = Math.max(map.bottom, z + k.dz);
+            if (h < map.heights[index]) map.heights[index] = h;
+        }
+    }
+};
+
+// Shades the surface into RGBA pixels, one per cell: untouched stock in light
+// wood, deeper cuts darker, lit from the top left so walls and floors stand
+// out. Cells cut through to the bottom are left transparent.
+export const shadeHeightmap = (map: Heightmap, out: Uint8ClampedArray) => {
+    const { cols, rows, cell, heights, bottom } = map;
+    const depthRange = Math.max(-bottom, 1e-6);
+    const light = { x: -0.5, y: -0.5, z: 0.7071 };
+    for (let j = 0; j < rows; j++) {
+        for (let i = 0; i < cols; i++) {
+            const index = j * cols + i;
+            const h = heights[index];
+            const p = index * 4;
+            if (h <= bottom + 1e-6) {
+                out[p + 3] = 0;
+                continue;
+            }
+            const dx = (heights[j * cols + Math.min(cols - 1, i + 1)] - heights[j * cols + Math.max(0, i - 1)]) / (2 * cell);
+            const dy = (heights[Math.min(rows - 1, j + 1) * cols + i] - heights[Math.max(0, j - 1) * cols + i]) / (2 * cell);
+            const lambert = Math.max(0, (-dx * light.x - dy * light.y + light.z) / Math.hypot(dx, dy, 1));
+            const depth = Math.min(1, -h / depthRange);
+            const shade = (0.35 + 0.65 * lambert) * (1 - 0.45 * depth);
+            out[p] = Math.round(222 * shade);
+            out[p + 1] = Math.round(184 * shade);
+            out[p + 2] = Math.round(135 * shade);
+            out[p + 3] = 255;
+        }
+    }
+};
@@ -0,0 +1,399 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Shape, ShapeType, RectangleShape, CircleShape, LineShape, PolylineShape, PathShape, TextShape, GroupShape, Contour, ToolpathSegment } from '../types';
+import { bezierToSegments, contourToPoints, translateContour, ellipseToBeziers, Matrix, IDENTITY_MATRIX, multiplyMatrix, applyMatrix, matrixScale, isAxisAligned, isSimilarity } from './toolpathService';
+import { AVAILABLE_FONTS } from './gcodeService';
+
+type Point = { x: number, y: number };
+
+const numbers = (s: string) => (s.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) || []).map(parseFloat);
+
+export const parseTransform = (attr: string | null): Matrix => {
+    let m = IDENTITY_MATRIX;
+    if (!attr) return m;
+    const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(attr))) {
+        const v = numbers(match[2]);
+        let t: Matrix = IDENTITY_MATRIX;
+        switch (match[1]) {
+            case 'matrix':
+                if (v.length === 6) t = v as Matrix;
+                break;
+            case 'translate':
+                t = [1, 0, 0, 1, v[0] || 0, v[1] || 0];
+                break;
+            case 'scale':
+                t = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0];
+                break;
+            case 'rotate': {
+                const a = (v[0] || 0) * Math.PI / 180;
+                const [cx, cy] = [v[1] || 0, v[2] || 0];
+                const r: Matrix = [Math.cos(a), Math.sin(a), -Math.sin(a), Math.cos(a), 0, 0];
+                t = multiplyMatrix(multiplyMatrix([1, 0, 0, 1, cx, cy], r), [1, 0, 0, 1, -cx, -cy]);
+                break;
+            }
+            case 'skewX':
+                t = [1, 0, Math.tan((v[0] || 0) * Math.PI / 180), 1, 0, 0];
+                break;
+            case 'skewY':
+                t = [1, Math.tan((v[0] || 0) * Math.PI / 180), 0, 1, 0, 0];
+                break;
+        }
+        m = multiplyMatrix(m, t);
+    }
+    return m;
+};
+
+// Millimetres per unit of an SVG length; unitless lengths are CSS pixels (96 per inch)
+const UNIT_MM: Record<string, number> = { mm: 1, cm: 10, in: 25.4, pt: 25.4 / 72, pc: 25.4 / 6, px: 25.4 / 96, '': 25.4 / 96 };
+
+const lengthToMm = (value: string | null): number | null => {
+    if (!value) return null;
+    const match = value.trim().match(/^([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)\s*(mm|cm|in|pt|pc|px)?$/);
+    if (!match) return null;
+    return parseFloat(match[1]) * UNIT_MM[match[2] || ''];
+};
+
+// Maps the root's user units to millimetres. With a viewBox but no size,
+// user units are taken as millimetres, which is how shapesToSvg writes files.
+const rootMatrix = (svg: Element): Matrix => {
+    const viewBox = numbers(svg.getAttribute('viewBox') || '');
+    const width = lengthToMm(svg.getAttribute('width'));
+    const height = lengthToMm(svg.getAttribute('height'));
+    if (viewBox.length !== 4 || viewBox[2] <= 0 || viewBox[3] <= 0) {
+        const px = UNIT_MM.px;
+        return [px, 0, 0, px, 0, 0];
+    }
+    const [vx, vy, vw, vh] = viewBox;
+    let sx = width !== null ? width / vw : height !== null ? height / vh : 1;
+    let sy = height !== null ? height / vh : sx;
+    if (width === null) sx = sy;
+    if ((svg.getAttribute('preserveAspectRatio') || '').trim() !== 'none') {
+        sx = sy = Math.min(sx, sy);
+    }
+    return [sx, 0, 0, sy, -vx * sx, -vy * sy];
+};
+
+// Cubic Béziers (control points after the start) for an SVG elliptical arc
+const arcToCubics = (from: Point, rx: number, ry: number, phiDeg: number, largeArc: boolean, sweep: boolean, to: Point): Point[][] => {
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx < 1e-9 || ry < 1e-9 || (from.x === to.x && from.y === to.y)) return [[from, to, to]];
+
+    const phi = phiDeg * Math.PI / 180;
+    const cos = Math.cos(phi), sin = Math.sin(phi);
+    // Endpoint to centre parameterisation (SVG spec F.6.5)
+    const dx = (from.x - to.x) / 2, dy = (from.y - to.y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+    const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+    const cxp = coef * rx * y1 / ry;
+    const cyp = -coef * ry * x1 / rx;
+    const cx = cos * cxp - sin * cyp + (from.x + to.x) / 2;
+    const cy = sin * cxp + cos * cyp + (from.y + to.y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta1 = angle(1, 0, (x1 - cxp) / rx, (y1 - cyp) / ry);
+    let delta = angle((x1 - cxp) / rx, (y1 - cyp) / ry, (-x1 - cxp) / rx, (-y1 - cyp) / ry);
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+
+    const cubics = ellipseToBeziers({ x: cx, y: cy }, rx, ry, phi, theta1, delta);
+    // End exactly where the path says, not where rounding puts it
+    cubics[cubics.length - 1][2] = to;
+    return cubics;
+};
+
+// Parses path data into contours in document coordinates. Curves are
+// transformed as control points (transforms are affine) and then fitted
+// with lines and arcs.
+export const parsePathData = (d: string, m: Matrix): Contour[] => {
+    const contours: Contour[] = [];
+    const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) || [];
+    let i = 0;
+    let cmd = '';
+    let current: Point = { x: 0, y: 0 };
+    let subpathStart: Point = { x: 0, y: 0 };
+    let lastControl: Point | null = null; // Reflected by S and T
+    let lastCommand = '';
+    let contour: Contour | null = null;
+
+    const isCommand = (tok: string) => /^[A-Za-z]$/.test(tok);
+    const num = () => parseFloat(tokens[i++]);
+    // Arc flags may be written without separators ("a1 1 0 00 1 1")
+    const flag = () => {
+        const tok = tokens[i];
+        if (tok.length > 1 && (tok[0] === '0' || tok[0] === '1')) {
+            tokens[i] = tok.slice(1);
+            return tok[0] === '1';
+        }
+        i++;
+        return tok === '1';
+    };
+
+    const ensureContour = () => {
+        if (!contour) {
+            contour = { start: applyMatrix(m, current), segments: [], closed: false };
+            contours.push(contour);
+        }
+        return contour;
+    };
+    const lineTo = (p: Point) => {
+        const t = applyMatrix(m, p);
+        ensureContour().segments.push({ type: 'LINE', x: t.x, y: t.y });
+        current = p;
+    };
+    const curveTo = (controls: Point[]) => {
+        const segs: ToolpathSegment[] = bezierToSegments([current, ...controls].map(p => applyMatrix(m, p)));
+        ensureContour().segments.push(...segs);
+        current = controls[controls.length - 1];
+    };
+
+    while (i < tokens.length) {
+        if (isCommand(tokens[i])) {
+            cmd = tokens[i++];
+        } else if (!cmd) {
+            i++;
+            continue;
+        }
+        const rel = cmd === cmd.toLowerCase();
+        const base = rel ? current : { x: 0, y: 0 };
+        const pt = (x: number, y: number): Point => ({ x: base.x + x, y: base.y + y });
+
+        // Stop on truncated data instead of producing NaN geometry
+        const needs: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+        const count = needs[cmd.toLowerCase()];
+        if (count > 0 && tokens.slice(i, i + count).some(tok => tok === undefined || isCommand(tok))) break;
+
+        switch (cmd.toLowerCase()) {
+            case 'm': {
+                current = pt(num(), num());
+                subpathStart = current;
+                contour = null;
+                lastControl = null;
+                // Further pairs are implicit line-tos
+                cmd = rel ? 'l' : 'L';
+                break;
+            }
+            case 'l':
+                lineTo(pt(num(), num()));
+                lastControl = null;
+                break;
+            case 'h':
+                lineTo({ x: (rel ? current.x : 0) + num(), y: current.y });
+                lastControl = null;
+                break;
+            case 'v':
+                lineTo({ x: current.x, y: (rel ? current.y : 0) + num() });
+                lastControl = null;
+                break;
+            case 'c': {
+                const c1 = pt(num(), num()), c2 = pt(num(), num()), end = pt(num(), num());
+                curveTo([c1, c2, end]);
+                lastControl = c2;
+                break;
+            }
+            case 's': {
+                const c1 = lastControl && /[CcSs]/.test(lastCommand) ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y } : current;
+                const c2 = pt(num(), num()), end = pt(num(), num());
+                curveTo([c1, c2, end]);
+                lastControl = c2;
+                break;
+            }
+            case 'q': {
+                const c = pt(num(), num()), end = pt(num(), num());
+                curveTo([c, end]);
+                lastControl = c;
+                break;
+            }
+            case 't': {
+                const c = lastControl && /[QqTt]/.test(lastCommand) ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y } : current;
+                const end = pt(num(), num());
+                curveTo([c, end]);
+                lastControl = c;
+                break;
+            }
+            case 'a': {
+                const rx = num(), ry = num(), rotation = num();
+                const large = flag(), sweep = flag();
+                const end = pt(num(), num());
+                for (const cubic of arcToCubics(current, rx, ry, rotation, large, sweep, end)) curveTo(cubic);
+                lastControl = null;
+                break;
+            }
+            case 'z': {
+                const open = contour as Contour | null;
+                if (open) {
+                    if (Math.hypot(current.x - subpathStart.x, current.y - subpathStart.y) > 1e-9) lineTo(subpathStart);
+                    open.closed = true;
+                }
+                current = subpathStart;
+                contour = null;
+                lastControl = null;
+                break;
+            }
+            default:
+                i++;
+        }
+        lastCommand = cmd;
+    }
+    return contours.filter(c => c.segments.length > 0);
+};
+
+const attrNum = (el: Element, name: string, def = 0) => {
+    const v = parseFloat(el.getAttribute(name) || '');
+    return isNaN(v) ? def : v;
+};
+
+// Inline style declarations override presentation attributes
+const styleValue = (el: Element, name: string): string | null => {
+    const style = el.getAttribute('style') || '';
+    const match = style.match(new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`));
+    return match ? match[1].trim() : el.getAttribute(name);
+};
+
+const isHidden = (el: Element) => styleValue(el, 'display') === 'none' || styleValue(el, 'visibility') === 'hidden';
+
+const pointList = (el: Element): Point[] => {
+    const v = numbers(el.getAttribute('points') || '');
+    const points: Point[] = [];
+    for (let k = 0; k + 1 < v.length; k += 2) points.push({ x: v[k], y: v[k + 1] });
+    return points;
+};
+
+// Path shapes keep their contours relative to the top-left of their bounds
+export const contoursToPathShape = (contours: Contour[]): PathShape | null => {
+    if (contours.length === 0) return null;
+    const points = contours.flatMap(c => contourToPoints(c, 0.1));
+    const x = Math.min(...points.map(p => p.x));
+    const y = Math.min(...points.map(p => p.y));
+    return { id: uuidv4(), type: ShapeType.PATH, x, y, contours: contours.map(c => translateContour(c, -x, -y)) };
+};
+
+const ellipseData = (cx: number, cy: number, rx: number, ry: number) =>
+    `M ${cx - rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`;
+
+const rectData = (x: number, y: number, w: number, h: number, rx: number, ry: number) => rx > 0 && ry > 0
+    ? `M ${x + rx} ${y} H ${x + w - rx} A ${rx} ${ry} 0 0 1 ${x + w} ${y + ry} V ${y + h - ry} A ${rx} ${ry} 0 0 1 ${x + w - rx} ${y + h} H ${x + rx} A ${rx} ${ry} 0 0 1 ${x} ${y + h - ry} V ${y + ry} A ${rx} ${ry} 0 0 1 ${x + rx} ${y} Z`
+    : `M ${x} ${y} H ${x + w} V ${y + h} H ${x} Z`;
+
+const matchFont = (family: string | null) => {
+    if (!family) return undefined;
+    const names = family.split(',').map(f => f.trim().replace(/^['"]|['"]$/g, '').toLowerCase());
+    return AVAILABLE_FONTS.find(font => names.includes(font.toLowerCase()));
+};
+
+const convertElement = (el: Element, parent: Matrix): Shape | null => {
+    if (isHidden(el)) return null;
+    const m = multiplyMatrix(parent, parseTransform(el.getAttribute('transform')));
+    const tag = el.localName;
+
+    switch (tag) {
+        case 'g':
+        case 'a':
+        case 'svg': {
+            // Nested <svg> elements establish their own viewport
+            const inner = tag === 'svg' ? multiplyMatrix(multiplyMatrix(m, [1, 0, 0, 1, attrNum(el, 'x'), attrNum(el, 'y')]), rootMatrixUnitless(el)) : m;
+            const children = convertChildren(el, inner);
+            if (children.length === 0) return null;
+            const name = el.getAttribute('inkscape:label') || el.getAttribute('id') || undefined;
+            return { id: uuidv4(), type: ShapeType.GROUP, x: 0, y: 0, name, children } as GroupShape;
+        }
+        case 'rect': {
+            const x = attrNum(el, 'x'), y = attrNum(el, 'y');
+            const w = attrNum(el, 'width'), h = attrNum(el, 'height');
+            if (w <= 0 || h <= 0) return null;
+            let rx = attrNum(el, 'rx', -1), ry = attrNum(el, 'ry', -1);
+            if (rx < 0) rx = Math.max(0, ry);
+            if (ry < 0) ry = rx;
+            rx = Math.min(rx, w / 2);
+            ry = Math.min(ry, h / 2);
+            if (isAxisAligned(m) && Math.abs(rx - ry) < 1e-9) {
+                const a = applyMatrix(m, { x, y }), b = applyMatrix(m, { x: x + w, y: y + h });
+                return {
+                    id: uuidv4(), type: ShapeType.RECTANGLE,
+                    x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y),
+                    cornerRadius: rx * matrixScale(m)
+                } as RectangleShape;
+            }
+            return contoursToPathShape(parsePathData(rectData(x, y, w, h, rx, ry), m));
+        }
+        case 'circle':
+        case 'ellipse': {
+            const cx = attrNum(el, 'cx'), cy = attrNum(el, 'cy');
+            const rx = tag === 'circle' ? attrNum(el, 'r') : attrNum(el, 'rx');
+            const ry = tag === 'circle' ? rx : attrNum(el, 'ry');
+            if (rx <= 0 || ry <= 0) return null;
+            if (Math.abs(rx - ry) < 1e-9 && isSimilarity(m)) {
+                const c = applyMatrix(m, { x: cx, y: cy });
+                return { id: uuidv4(), type: ShapeType.CIRCLE, x: c.x, y: c.y, radius: rx * matrixScale(m) } as CircleShape;
+            }
+            return contoursToPathShape(parsePathData(ellipseData(cx, cy, rx, ry), m));
+        }
+        case 'line': {
+            const a = applyMatrix(m, { x: attrNum(el, 'x1'), y: attrNum(el, 'y1') });
+            const b = applyMatrix(m, { x: attrNum(el, 'x2'), y: attrNum(el, 'y2') });
+            return { id: uuidv4(), type: ShapeType.LINE, x: a.x, y: a.y, x2: b.x, y2: b.y } as LineShape;
+        }
+        case 'polyline':
+        case 'polygon': {
+            const points = pointList(el).map(p => applyMatrix(m, p));
+            if (points.length < 2) return null;
+            if (tag === 'polygon') points.push({ ...points[0] });
+            return { id: uuidv4(), type: ShapeType.POLYLINE, x: 0, y: 0, points } as PolylineShape;
+        }
+        case 'path':
+            return contoursToPathShape(parsePathData(el.getAttribute('d') || '', m));
+        case 'text': {
+            const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+            if (!text) return null;
+            // Position from the element or its first tspan
+            const tspan = el.querySelector('tspan');
+            const x = numbers(el.getAttribute('x') || tspan?.getAttribute('x') || '0')[0] || 0;
+            const y = numbers(el.getAttribute('y') || tspan?.getAttribute('y') || '0')[0] || 0;
+            const size = parseFloat(styleValue(el, 'font-size') || styleValue(tspan || el, 'font-size') || '16');
+            const p = applyMatrix(m, { x, y });
+            return {
+                id: uuidv4(), type: ShapeType.TEXT, x: p.x, y: p.y, text,
+                fontSize: (isNaN(size) ? 16 : size) * matrixScale(m),
+                fontFamily: matchFont(styleValue(el, 'font-family'))
+            } as TextShape;
+        }
+        default:
+            return null;
+    }
+};
+
+// viewBox mapping of a nested <svg>, in its parent's user units
+const rootMatrixUnitless = (svg: Element): Matrix => {
+    const viewBox = numbers(svg.getAttribute('viewBox') || '');
+    const width = parseFloat(svg.getAttribute('width') || '');
+    const height = parseFloat(svg.getAttribute('height') || '');
+    if (viewBox.length !== 4 || !(width > 0) || !(height > 0)) return IDENTITY_MATRIX;
+    const s = Math.min(width / viewBox[2], height / viewBox[3]);
+    return [s, 0, 0, s, -viewBox[0] * s, -viewBox[1] * s];
+};
+
+const SKIPPED = new Set(['defs', 'clipPath', 'mask', 'symbol', 'marker', 'pattern', 'metadata', 'title', 'desc', 'style']);
+
+const convertChildren = (el: Element, m: Matrix): Shape[] =>
+    Array.from(el.children)
+        .filter(child => !SKIPPED.has(child.localName))
+        .map(child => convertElement(child, m))
+        .filter((s): s is Shape => !!s);
+
+// Converts an SVG document into shapes in millimetres. Groups stay groups,
+// curves become arcs, and transforms, viewBox and document units are applied.
+export const parseSvgToShapes = (svgString: string): Shape[] => {
+    const doc = new DOMParser().parseFromString(svgString, 'image/svg+xml');
+    const svg = doc.documentElement;
+    if (!svg || svg.localName !== 'svg') return [];
+    return convertChildren(svg, multiplyMatrix(rootMatrix(svg), parseTransform(svg.getAttribute('transform'))));
+};
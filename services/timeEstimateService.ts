@@ -0,0 +1,175 @@
+import { Motion, Vec3, motionPoints } from './gcodeInterpreterService';
+
+// Motion limits of the machine, as GRBL's $110-$112, $120-$122, $11 and $12
+export interface MachineLimits {
+    maxRate: Vec3;      // mm/min
+    acceleration: Vec3; // mm/s²
+    junctionDeviation: number; // mm
+    arcTolerance: number;      // mm
+}
+
+// GRBL 1.1 factory defaults, used for settings the machine has not reported
+export const DEFAULT_MACHINE_LIMITS: MachineLimits = {
+    maxRate: { x: 500, y: 500, z: 500 },
+    acceleration: { x: 10, y: 10, z: 10 },
+    junctionDeviation: 0.01,
+    arcTolerance: 0.002,
+};
+
+export interface TimeEstimate {
+    cutting: number; // Seconds
+    rapid: number;
+    plunge: number;  // Feed moves that are mostly vertical
+    dwell: number;
+    total: number;
+}
+
+// GRBL plans this many blocks ahead, so each block must be able to stop by the end of the buffer
+const PLANNER_BUFFER_BLOCKS = 16;
+const MINIMUM_JUNCTION_SPEED = 0; // mm/s
+
+// Limits from the `$n=value` settings read from the machine; `complete` is
+// false when any had to fall back to GRBL's defaults
+export const machineLimitsFromSettings = (settings: Record<string, string>): { limits: MachineLimits, complete: boolean } => {
+    let complete = true;
+    const read = (key: string, fallback: number) => {
+        const val = parseFloat(settings[key]);
+        if (isNaN(val) || val <= 0) {
+            complete = false;
+            return fallback;
+        }
+        return val;
+    };
+    const d = DEFAULT_MACHINE_LIMITS;
+    return {
+        limits: {
+            maxRate: { x: read('110', d.maxRate.x), y: read('111', d.maxRate.y), z: read('112', d.maxRate.z) },
+            acceleration: { x: read('120', d.acceleration.x), y: read('121', d.acceleration.y), z: read('122', d.acceleration.z) },
+            junctionDeviation: read('11', d.junctionDeviation),
+            arcTolerance: read('12', d.arcTolerance),
+        },
+        complete,
+    };
+};
+
+type Kind = 'cutting' | 'rapid' | 'plunge';
+
+interface Block {
+    kind: Kind;
+    length: number;
+    unit: Vec3;
+    nominal: number;       // Speed the block is programmed at, mm/s
+    acceleration: number;  // mm/s² along the block
+    maxEntry: number;      // Fastest the junction into this block allows, mm/s
+}
+
+// Largest value along `unit` that keeps every axis within its own limit
+const limitByAxes = (limit: Vec3, unit: Vec3): number => {
+    let value = Infinity;
+    (['x', 'y', 'z'] as const).forEach(axis => {
+        if (Math.abs(unit[axis]) > 1e-12) value = Math.min(value, limit[axis] / Math.abs(unit[axis]));
+    });
+    return value;
+};
+
+// Junction speed from GRBL's junction deviation model: the speed at which a
+// circle of deviation $11 fitted into the corner would see the acceleration limit
+const junctionSpeed = (prev: Block, next: Block, limits: MachineLimits): number => {
+    const cosTheta = -(prev.unit.x * next.unit.x + prev.unit.y * next.unit.y + prev.unit.z * next.unit.z);
+    if (cosTheta > 0.999999) return MINIMUM_JUNCTION_SPEED; // Reversal
+    const cap = Math.min(prev.nominal, next.nominal);
+    if (cosTheta < -0.999999) return cap; // Straight on
+    const diff = { x: next.unit.x - prev.unit.x, y: next.unit.y - prev.unit.y, z: next.unit.z - prev.unit.z };
+    const len = Math.hypot(diff.x, diff.y, diff.z);
+    const acceleration = limitByAxes(limits.acceleration, { x: diff.x / len, y: diff.y / len, z: diff.z / len });
+    const sinThetaD2 = Math.sqrt(0.5 * (1 - cosTheta));
+    const speed = Math.sqrt(Math.max(MINIMUM_JUNCTION_SPEED ** 2, acceleration * limits.junctionDeviation * sinThetaD2 / (1 - sinThetaD2)));
+    return Math.min(speed, cap);
+};
+
+// Time to cover `length` starting at v0 and ending at v1, never above vmax
+const trapezoidTime = (length: number, v0: number, v1: number, vmax: number, a: number): number => {
+    const accelDist = (vmax * vmax - v0 * v0) / (2 * a);
+    const decelDist = (vmax * vmax - v1 * v1) / (2 * a);
+    if (accelDist + decelDist <= length) {
+        return (vmax - v0) / a + (vmax - v1) / a + (length - accelDist - decelDist) / vmax;
+    }
+    const peak = Math.sqrt(Math.max(v0 * v0, v1 * v1, (2 * a * length + v0 * v0 + v1 * v1) / 2));
+    return Math.max(0, (peak - v0) / a) + Math.max(0, (peak - v1) / a);
+};
+
+// Runs the program through a model of GRBL's planner: every move accelerates
+// and decelerates within the axis limits, corners are taken at the junction
+// deviation speed, arcs become chords within the arc tolerance, and the
+// machine comes to a stop at dwells and spindle changes.
+export const estimateJobTime = (motions: Motion[], limits: MachineLimits): TimeEstimate => {
+    const estimate: TimeEstimate = { cutting: 0, rapid: 0, plunge: 0, dwell: 0, total: 0 };
+
+    // Runs of blocks the planner can blend; each run starts and ends at rest
+    const runs: Block[][] = [[]];
+    let lastSpindle: string | null = null;
+    motions.forEach(motion => {
+        if (motion.type === 'dwell') {
+            estimate.dwell += motion.duration || 0;
+            runs.push([]);
+            return;
+        }
+        if (lastSpindle !== null && motion.state.spindle !== lastSpindle) runs.push([]);
+        lastSpindle = motion.state.spindle;
+
+        const xy = Math.hypot(motion.end.x - motion.start.x, motion.end.y - motion.start.y);
+        const kind: Kind = motion.type === 'rapid' ? 'rapid'
+            : motion.type !== 'arc' && Math.abs(motion.end.z - motion.start.z) >= xy ? 'plunge'
+            : 'cutting';
+
+        let chord = Infinity;
+        if (motion.type === 'arc') {
+            const r = Math.hypot(motion.start.x - motion.center!.x, motion.start.y - motion.center!.y, motion.start.z - motion.center!.z);
+            const tol = Math.min(limits.arcTolerance, r);
+            chord = Math.max(2 * Math.sqrt(tol * (2 * r - tol)), 1e-3);
+        }
+        let from = motion.start;
+        motionPoints(motion, chord).forEach(to => {
+            const d = { x: to.x - from.x, y: to.y - from.y, z: to.z - from.z };
+            const length = Math.hypot(d.x, d.y, d.z);
+            from = to;
+            if (length < 1e-9) return;
+            const unit = { x: d.x / length, y: d.y / length, z: d.z / length };
+            const rateLimit = limitByAxes(limits.maxRate, unit);
+            const feed = kind === 'rapid' || motion.feed <= 0 ? rateLimit : Math.min(motion.feed, rateLimit);
+            runs[runs.length - 1].push({
+                kind, length, unit,
+                nominal: feed / 60,
+                acceleration: limitByAxes(limits.acceleration, unit),
+                maxEntry: 0,
+            });
+        });
+    });
+
+    runs.forEach(blocks => {
+        const n = blocks.length;
+        for (let k = 1; k < n; k++) blocks[k].maxEntry = junctionSpeed(blocks[k - 1], blocks[k], limits);
+
+        // Entry speed from which each block can still stop by the end of the
+        // planner buffer (or of the run, whichever comes first)
+        const bound = new Array<number>(n + 1).fill(0);
+        for (let k = 1; k < n; k++) {
+            let v = 0;
+            for (let j = Math.min(n, k + PLANNER_BUFFER_BLOCKS) - 1; j >= k; j--) {
+                v = Math.min(blocks[j].maxEntry, Math.sqrt(v * v + 2 * blocks[j].acceleration * blocks[j].length));
+            }
+            bound[k] = v;
+        }
+
+        let entry = 0;
+        blocks.forEach((block, k) => {
+            const exit = Math.min(bound[k + 1], Math.sqrt(entry * entry + 2 * block.acceleration * block.length));
+            const vmax = Math.max(block.nominal, entry, exit);
+            estimate[block.kind] += trapezoidTime(block.length, entry, exit, vmax, block.acceleration);
+            entry = exit;
+        });
+    });
+
+    estimate.total = estimate.cutting + estimate.rapid + estimate.plunge + estimate.dwell;
+    return estimate;
+};
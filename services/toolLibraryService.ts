@@ -0,0 +1,82 @@
+import { CuttingTool, ToolType, ToolFeeds, ToolLibrary, ToolChangeMode, MachineSettings } from '../types';
+
+const STORAGE_KEY = 'cncforge.toolLibrary';
+
+export const MATERIALS = ['Softwood', 'Hardwood', 'MDF', 'Plywood', 'Acrylic', 'Aluminium'];
+
+export const TOOL_TYPE_LABELS: Record<ToolType, string> = {
+    [ToolType.FLAT]: 'Flat End Mill',
+    [ToolType.BALL]: 'Ball Nose',
+    [ToolType.VBIT]: 'V-Bit',
+    [ToolType.DRAG_KNIFE]: 'Drag Knife',
+    [ToolType.LASER]: 'Laser',
+};
+
+const feeds = (feedRate: number, plungeRate: number, spindleSpeed: number): ToolFeeds => ({ feedRate, plungeRate, spindleSpeed });
+
+export const DEFAULT_TOOL_LIBRARY: ToolLibrary = {
+    toolChange: ToolChangeMode.M0,
+    tools: [
+        {
+            id: 'default-flat-3175', number: 1, name: '1/8" Flat End Mill', type: ToolType.FLAT, diameter: 3.175, flutes: 2, angle: 0,
+            feeds: {
+                Softwood: feeds(1200, 400, 18000), Hardwood: feeds(800, 300, 18000), MDF: feeds(1000, 400, 16000),
+                Plywood: feeds(1000, 350, 18000), Acrylic: feeds(600, 200, 12000), Aluminium: feeds(300, 80, 10000)
+            }
+        },
+        {
+            id: 'default-flat-6', number: 2, name: '6 mm Flat End Mill', type: ToolType.FLAT, diameter: 6, flutes: 2, angle: 0,
+            feeds: {
+                Softwood: feeds(1800, 500, 16000), Hardwood: feeds(1200, 400, 16000), MDF: feeds(1500, 500, 14000),
+                Plywood: feeds(1500, 450, 16000), Acrylic: feeds(900, 250, 12000), Aluminium: feeds(450, 100, 10000)
+            }
+        },
+        {
+            id: 'default-ball-3175', number: 3, name: '1/8" Ball Nose', type: ToolType.BALL, diameter: 3.175, flutes: 2, angle: 0,
+            feeds: { Softwood: feeds(1000, 350, 18000), Hardwood: feeds(700, 250, 18000), MDF: feeds(900, 300, 16000) }
+        },
+        {
+            id: 'default-vbit-60', number: 4, name: '60° V-Bit', type: ToolType.VBIT, diameter: 6.35, flutes: 2, angle: 60,
+            feeds: { Softwood: feeds(900, 300, 18000), Hardwood: feeds(600, 200, 18000), MDF: feeds(800, 300, 16000), Acrylic: feeds(500, 150, 12000) }
+        },
+    ]
+};
+
+// The library lives in the browser, shared by every project
+export const loadToolLibrary = (): ToolLibrary => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as ToolLibrary;
+            if (Array.isArray(parsed.tools)) return { ...DEFAULT_TOOL_LIBRARY, ...parsed };
+        }
+    } catch (e) {
+        console.warn('Could not read the tool library, using defaults.', e);
+    }
+    return DEFAULT_TOOL_LIBRARY;
+};
+
+export const saveToolLibrary = (library: ToolLibrary) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+    } catch (e) {
+        console.warn('Could not save the tool library.', e);
+    }
+};
+
+export const findTool = (library: ToolLibrary, id: string | undefined): CuttingTool | undefined =>
+    id ? library.tools.find(t => t.id === id) : undefined;
+
+// Lowest tool number not yet taken
+export const nextToolNumber = (library: ToolLibrary) => {
+    let n = 1;
+    while (library.tools.some(t => t.number === n)) n++;
+    return n;
+};
+
+// Machining settings for cutting with a tool: its diameter, plus its feeds
+// and speeds for the material when the library has them
+export const applyTool = (settings: MachineSettings, tool: CuttingTool, material?: string): MachineSettings => {
+    const preset = material ? tool.feeds[material] : undefined;
+    return { ...settings, toolDiameter: tool.diameter, ...(preset || {}) };
+};
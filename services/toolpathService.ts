@@ -0,0 +1,1083 @@
+import ClipperLib from 'clipper-lib';
+import { Contour, ToolpathSegment, ProfileMode, PocketStrategy, TabSettings } from '../types';
+
+type Point = { x: number, y: number };
+type ArcSegment = Extract<ToolpathSegment, { type: 'ARC' }>;
+
+const EPS = 1e-6;
+const TWO_PI = Math.PI * 2;
+// Clipper works on integer coordinates: 1 unit = 1 µm
+const CLIPPER_SCALE = 1000;
+// Arcs shorter than this are written as lines; G-code only carries 3 decimals
+// and an arc whose endpoints round to the same point is read as a full circle.
+const MIN_ARC_CHORD = 0.01;
+
+const dist = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+const cross = (a: Point, b: Point) => a.x * b.y - a.y * b.x;
+
+const segmentDistance = (p: Point, a: Point, b: Point) => {
+    const len2 = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+    const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / len2)) : 0;
+    return Math.hypot(p.x - a.x - t * (b.x - a.x), p.y - a.y - t * (b.y - a.y));
+};
+
+// Centre, radius, start angle and signed sweep (negative = clockwise) of an arc
+// segment starting at `from`. An arc ending where it starts is a full circle.
+const arcGeometry = (from: Point, seg: ArcSegment) => {
+    const cx = from.x + seg.i;
+    const cy = from.y + seg.j;
+    const r = Math.hypot(seg.i, seg.j);
+    const a0 = Math.atan2(from.y - cy, from.x - cx);
+    let sweep: number;
+    if (dist(from, seg) < 1e-9) {
+        sweep = seg.clockwise ? -TWO_PI : TWO_PI;
+    } else {
+        sweep = normalizeSweep(Math.atan2(seg.y - cy, seg.x - cx) - a0, seg.clockwise);
+    }
+    return { cx, cy, r, a0, sweep };
+};
+
+const normalizeSweep = (sweep: number, clockwise: boolean) => {
+    if (clockwise) {
+        while (sweep > 0) sweep -= TWO_PI;
+    } else {
+        while (sweep < 0) sweep += TWO_PI;
+    }
+    return sweep;
+};
+
+export const translateContour = (contour: Contour, dx: number, dy: number): Contour => ({
+    start: { x: contour.start.x + dx, y: contour.start.y + dy },
+    segments: contour.segments.map(seg => ({ ...seg, x: seg.x + dx, y: seg.y + dy })),
+    closed: contour.closed
+});
+
+// Flattens a contour into points, subdividing arcs so the chord error stays below tolerance.
+export const contourToPoints = (contour: Contour, tolerance: number = 0.05): Point[] => {
+    const points: Point[] = [contour.start];
+    let from: Point = contour.start;
+    for (const seg of contour.segments) {
+        if (seg.type === 'ARC') {
+            const { cx, cy, r, a0, sweep } = arcGeometry(from, seg);
+            const maxStep = r > tolerance ? 2 * Math.acos(1 - tolerance / r) : Math.PI / 4;
+            const steps = Math.max(2, Math.ceil(Math.abs(sweep) / maxStep));
+            for (let k = 1; k < steps; k++) {
+                const a = a0 + sweep * k / steps;
+                points.push({ x: cx + r * Math.cos(a), y: cy + r * Math.sin(a) });
+            }
+        }
+        points.push({ x: seg.x, y: seg.y });
+        from = seg;
+    }
+    return points;
+};
+
+// Shoelace area, positive for counter-clockwise points (in Y-up coordinates)
+export const polygonArea = (points: Point[]): number => {
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        area += a.x * b.y - b.x * a.y;
+    }
+    return area / 2;
+};
+
+export const pointInPolygon = (p: Point, polygon: Point[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+export const segmentLength = (from: Point, seg: ToolpathSegment) => {
+    if (seg.type === 'ARC') {
+        const { r, sweep } = arcGeometry(from, seg);
+        return r * Math.abs(sweep);
+    }
+    return dist(from, seg);
+};
+
+// Point a fraction t along a segment
+const segmentPoint = (from: Point, seg: ToolpathSegment, t: number): Point => {
+    if (seg.type === 'ARC') {
+        const { cx, cy, r, a0, sweep } = arcGeometry(from, seg);
+        const a = a0 + sweep * t;
+        return { x: cx + r * Math.cos(a), y: cy + r * Math.sin(a) };
+    }
+    return { x: from.x + (seg.x - from.x) * t, y: from.y + (seg.y - from.y) * t };
+};
+
+// Unit direction of travel at the start or end of a segment
+const segmentTangent = (from: Point, seg: ToolpathSegment, atEnd: boolean): Point => {
+    if (seg.type === 'ARC') {
+        const { a0, sweep } = arcGeometry(from, seg);
+        const a = atEnd ? a0 + sweep : a0;
+        return sweep > 0 ? { x: -Math.sin(a), y: Math.cos(a) } : { x: Math.sin(a), y: -Math.cos(a) };
+    }
+    const len = dist(from, seg) || 1;
+    return { x: (seg.x - from.x) / len, y: (seg.y - from.y) / len };
+};
+
+export const contourLength = (contour: Contour): number => {
+    let length = 0;
+    let from: Point = contour.start;
+    for (const seg of contour.segments) {
+        length += segmentLength(from, seg);
+        from = seg;
+    }
+    return length;
+};
+
+export const pointAtLength = (contour: Contour, length: number): Point => {
+    let travelled = 0;
+    let from: Point = contour.start;
+    for (const seg of contour.segments) {
+        const len = segmentLength(from, seg);
+        if (len > 0 && travelled + len >= length) return segmentPoint(from, seg, (length - travelled) / len);
+        travelled += len;
+        from = seg;
+    }
+    return from;
+};
+
+// Distance along the contour to the point closest to p
+export const lengthAtPoint = (contour: Contour, p: Point): number => {
+    let best = Infinity;
+    let bestLength = 0;
+    let travelled = 0;
+    let from: Point = contour.start;
+    for (const seg of contour.segments) {
+        const len = segmentLength(from, seg);
+        const steps = seg.type === 'ARC' ? Math.max(2, Math.ceil(len / 0.5)) : 1;
+        let prev = from;
+        for (let k = 1; k <= steps; k++) {
+            const next = segmentPoint(from, seg, k / steps);
+            const d = segmentDistance(p, prev, next);
+            if (d < best) {
+                best = d;
+                const chord2 = (next.x - prev.x) ** 2 + (next.y - prev.y) ** 2;
+                const t = chord2 > 0 ? Math.max(0, Math.min(1, ((p.x - prev.x) * (next.x - prev.x) + (p.y - prev.y) * (next.y - prev.y)) / chord2)) : 0;
+                bestLength = travelled + len * (k - 1 + t) / steps;
+            }
+            prev = next;
+        }
+        travelled += len;
+        from = seg;
+    }
+    return bestLength;
+};
+
+const contourEnd = (c: Contour) => c.segments.length > 0 ? c.segments[c.segments.length - 1] : c.start;
+
+// Same path traversed the other way. Arc centres are re-expressed relative to the new segment starts.
+export const reverseContour = (c: Contour): Contour => {
+    const points = [c.start, ...c.segments];
+    const segments: ToolpathSegment[] = [];
+    for (let k = c.segments.length - 1; k >= 0; k--) {
+        const seg = c.segments[k];
+        const from = points[k + 1];
+        const to = points[k];
+        if (seg.type === 'ARC') {
+            const cx = to.x + seg.i;
+            const cy = to.y + seg.j;
+            segments.push({ type: 'ARC', x: to.x, y: to.y, i: cx - from.x, j: cy - from.y, clockwise: !seg.clockwise });
+        } else {
+            segments.push({ type: 'LINE', x: to.x, y: to.y });
+        }
+    }
+    const end = contourEnd(c);
+    return { start: { x: end.x, y: end.y }, segments, closed: c.closed };
+};
+
+// Cuts a contour at the given distances along it. Each piece keeps the
+// distances it spans so callers can tell which range it belongs to.
+export const splitContour = (contour: Contour, lengths: number[]): { contour: Contour, start: number, end: number }[] => {
+    const cuts = [...lengths].sort((a, b) => a - b);
+    const pieces: { contour: Contour, start: number, end: number }[] = [];
+    let current = { contour: { start: contour.start, segments: [] as ToolpathSegment[], closed: false }, start: 0, end: 0 };
+    let travelled = 0;
+    let from: Point = contour.start;
+    let c = 0;
+
+    const partial = (seg: ToolpathSegment, start: Point, end: Point): ToolpathSegment => {
+        if (seg.type === 'ARC') {
+            return { type: 'ARC', x: end.x, y: end.y, i: from.x + seg.i - start.x, j: from.y + seg.j - start.y, clockwise: seg.clockwise };
+        }
+        return { type: 'LINE', x: end.x, y: end.y };
+    };
+
+    for (const seg of contour.segments) {
+        const len = segmentLength(from, seg);
+        let pieceStart = from;
+        while (c < cuts.length && cuts[c] < travelled + len) {
+            if (cuts[c] > travelled) {
+                const cutPoint = segmentPoint(from, seg, (cuts[c] - travelled) / len);
+                current.contour.segments.push(partial(seg, pieceStart, cutPoint));
+                pieceStart = cutPoint;
+            }
+            if (current.contour.segments.length > 0) {
+                current.end = Math.max(cuts[c], travelled);
+                pieces.push(current);
+            }
+            current = { contour: { start: pieceStart, segments: [], closed: false }, start: Math.max(cuts[c], travelled), end: 0 };
+            c++;
+        }
+        current.contour.segments.push(pieceStart === from ? seg : partial(seg, pieceStart, seg));
+        travelled += len;
+        from = seg;
+    }
+    if (current.contour.segments.length > 0) {
+        current.end = travelled;
+        pieces.push(current);
+    }
+    return pieces;
+};
+
+// Tab centers as fractions of the contour length: dragged positions, or evenly spaced
+export const tabFractions = (tabs: TabSettings): number[] => {
+    if (tabs.positions && tabs.positions.length > 0) return tabs.positions;
+    const count = Math.max(0, Math.round(tabs.count));
+    return Array.from({ length: count }, (_, k) => (k + 0.5) / count);
+};
+
+// Ranges along a closed contour where the tool rides over tabs. A tab
+// crossing the contour start is split in two.
+export const tabRanges = (length: number, fractions: number[], width: number): [number, number][] => {
+    if (length <= 0 || width <= 0) return [];
+    const ranges: [number, number][] = [];
+    for (const f of fractions) {
+        const center = f * length;
+        const a = center - width / 2;
+        const b = center + width / 2;
+        if (width >= length) return [[0, length]];
+        if (a < 0) ranges.push([a + length, length], [0, b]);
+        else if (b > length) ranges.push([a, length], [0, b - length]);
+        else ranges.push([a, b]);
+    }
+    ranges.sort((r1, r2) => r1[0] - r2[0]);
+    const merged: [number, number][] = [];
+    for (const r of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+        else merged.push([r[0], r[1]]);
+    }
+    return merged;
+};
+
+// SVG path data for a contour, used to preview toolpaths on the canvas
+export const contourToSvgPath = (contour: Contour): string => {
+    const parts = [`M ${contour.start.x} ${contour.start.y}`];
+    let from: Point = contour.start;
+    for (const seg of contour.segments) {
+        if (seg.type === 'ARC') {
+            const { cx, cy, r, a0, sweep } = arcGeometry(from, seg);
+            const sweepFlag = seg.clockwise ? 0 : 1;
+            if (Math.abs(sweep) > TWO_PI - EPS) {
+                // SVG cannot draw a full circle as one arc
+                const mid = a0 + sweep / 2;
+                parts.push(`A ${r} ${r} 0 0 ${sweepFlag} ${cx + r * Math.cos(mid)} ${cy + r * Math.sin(mid)}`);
+            }
+            parts.push(`A ${r} ${r} 0 ${Math.abs(sweep) > Math.PI && Math.abs(sweep) <= TWO_PI - EPS ? 1 : 0} ${sweepFlag} ${seg.x} ${seg.y}`);
+        } else {
+            parts.push(`L ${seg.x} ${seg.y}`);
+        }
+        from = seg;
+    }
+    if (contour.closed) parts.push('Z');
+    return parts.join(' ');
+};
+
+const toClipperPath = (points: Point[]): ClipperLib.Path =>
+    points.map(p => ({ X: Math.round(p.x * CLIPPER_SCALE), Y: Math.round(p.y * CLIPPER_SCALE) }));
+
+const fromClipperPath = (path: ClipperLib.Path): Point[] =>
+    path.map(p => ({ x: p.X / CLIPPER_SCALE, y: p.Y / CLIPPER_SCALE }));
+
+// Offsets polygons (outer boundaries and holes) with round joins. Positive delta grows the area.
+const offsetPaths = (paths: ClipperLib.Paths, delta: number): ClipperLib.Paths => {
+    const offset = new ClipperLib.ClipperOffset(2, 0.01 * CLIPPER_SCALE);
+    offset.AddPaths(paths, ClipperLib.JoinType.jtRound, ClipperLib.EndType.etClosedPolygon);
+    const solution: ClipperLib.Paths = [];
+    offset.Execute(solution, delta * CLIPPER_SCALE);
+    return solution;
+};
+
+// Polygon offset of a single ring, regardless of its orientation
+const clipperOffset = (points: Point[], delta: number): Point[][] => {
+    const path = toClipperPath(points);
+    if (!ClipperLib.Clipper.Orientation(path)) path.reverse();
+    return offsetPaths([path], delta).map(fromClipperPath);
+};
+
+// Closed line contour through points, running in the given orientation and
+// starting at the point closest to `near`.
+const polygonToContour = (points: Point[], orientation: number, near: Point): Contour => {
+    const path = polygonArea(points) * orientation < 0 ? [...points].reverse() : points;
+    let startIndex = 0;
+    path.forEach((p, i) => {
+        if (dist(p, near) < dist(path[startIndex], near)) startIndex = i;
+    });
+    const ordered = [...path.slice(startIndex), ...path.slice(0, startIndex)];
+    return {
+        start: ordered[0],
+        segments: [...ordered.slice(1), ordered[0]].map(p => ({ type: 'LINE' as const, x: p.x, y: p.y })),
+        closed: true
+    };
+};
+
+// One segment of the original contour moved sideways by the offset distance
+interface OffsetPiece {
+    a: Point;
+    b: Point;
+    corner: Point; // Original end point, centre of a rounding join
+    tIn: Point;    // Original unit tangents at start and end
+    tOut: Point;
+    arc?: { cx: number, cy: number, r: number, sweep: number };
+}
+
+// Intersections of the lines/circles carrying two pieces
+const intersectPieces = (p1: OffsetPiece, p2: OffsetPiece): Point[] => {
+    if (!p1.arc && !p2.arc) {
+        const d1 = { x: p1.b.x - p1.a.x, y: p1.b.y - p1.a.y };
+        const d2 = { x: p2.b.x - p2.a.x, y: p2.b.y - p2.a.y };
+        const denom = cross(d1, d2);
+        if (Math.abs(denom) < EPS * EPS) return [];
+        const t = cross({ x: p2.a.x - p1.a.x, y: p2.a.y - p1.a.y }, d2) / denom;
+        return [{ x: p1.a.x + d1.x * t, y: p1.a.y + d1.y * t }];
+    }
+    if (p1.arc && p2.arc) {
+        const c1 = { x: p1.arc.cx, y: p1.arc.cy };
+        const c2 = { x: p2.arc.cx, y: p2.arc.cy };
+        const d = dist(c1, c2);
+        const r1 = p1.arc.r;
+        const r2 = p2.arc.r;
+        if (d < EPS || d > r1 + r2 || d < Math.abs(r1 - r2)) return [];
+        const a = (r1 * r1 - r2 * r2 + d * d) / (2 * d);
+        const h = Math.sqrt(Math.max(0, r1 * r1 - a * a));
+        const mx = c1.x + (c2.x - c1.x) * a / d;
+        const my = c1.y + (c2.y - c1.y) * a / d;
+        return [
+            { x: mx + h * (c2.y - c1.y) / d, y: my - h * (c2.x - c1.x) / d },
+            { x: mx - h * (c2.y - c1.y) / d, y: my + h * (c2.x - c1.x) / d }
+        ];
+    }
+    const line = p1.arc ? p2 : p1;
+    const circle = (p1.arc || p2.arc)!;
+    const d = { x: line.b.x - line.a.x, y: line.b.y - line.a.y };
+    const f = { x: line.a.x - circle.cx, y: line.a.y - circle.cy };
+    const a = d.x * d.x + d.y * d.y;
+    const b = 2 * (f.x * d.x + f.y * d.y);
+    const c = f.x * f.x + f.y * f.y - circle.r * circle.r;
+    const disc = b * b - 4 * a * c;
+    if (a < EPS * EPS || disc < 0) return [];
+    const root = Math.sqrt(disc);
+    return [(-b - root) / (2 * a), (-b + root) / (2 * a)].map(t => ({ x: line.a.x + d.x * t, y: line.a.y + d.y * t }));
+};
+
+// Offsets a closed contour keeping its arcs as arcs: convex corners are
+// rounded with an arc about the original vertex, concave corners are mitered
+// by trimming the neighbouring pieces to their intersection. Returns null when
+// the offset folds over itself and needs a general polygon offset instead.
+const offsetWithArcs = (contour: Contour, distance: number, orientation: number): Contour | null => {
+    const normal = (t: Point): Point => orientation > 0 ? { x: t.y, y: -t.x } : { x: -t.y, y: t.x };
+    const pieces: OffsetPiece[] = [];
+
+    let from: Point = contour.start;
+    for (const seg of contour.segments) {
+        const corner = { x: seg.x, y: seg.y };
+        if (seg.type === 'ARC') {
+            const { cx, cy, r, a0, sweep } = arcGeometry(from, seg);
+            const tangent = (angle: number): Point => sweep > 0
+                ? { x: -Math.sin(angle), y: Math.cos(angle) }
+                : { x: Math.sin(angle), y: -Math.cos(angle) };
+            const tIn = tangent(a0);
+            const n = normal(tIn);
+            const side = n.x * Math.cos(a0) + n.y * Math.sin(a0) > 0 ? 1 : -1;
+            const newR = r + side * distance;
+            // An arc shrinking to nothing is dropped; its neighbours get trimmed against each other
+            if (newR > EPS) {
+                const a1 = a0 + sweep;
+                pieces.push({
+                    a: { x: cx + newR * Math.cos(a0), y: cy + newR * Math.sin(a0) },
+                    b: { x: cx + newR * Math.cos(a1), y: cy + newR * Math.sin(a1) },
+                    corner, tIn, tOut: tangent(a1),
+                    arc: { cx, cy, r: newR, sweep }
+                });
+            }
+        } else {
+            const len = dist(from, seg);
+            if (len > EPS) {
+                const t = { x: (seg.x - from.x) / len, y: (seg.y - from.y) / len };
+                const n = normal(t);
+                pieces.push({
+                    a: { x: from.x + n.x * distance, y: from.y + n.y * distance },
+                    b: { x: seg.x + n.x * distance, y: seg.y + n.y * distance },
+                    corner, tIn: t, tOut: t
+                });
+            }
+        }
+        from = seg;
+    }
+    if (pieces.length === 0) return null;
+
+    const joins: (ToolpathSegment | null)[] = pieces.map(() => null);
+    for (let k = 0; k < pieces.length; k++) {
+        const p1 = pieces[k];
+        const p2 = pieces[(k + 1) % pieces.length];
+        if (dist(p1.b, p2.a) < EPS) continue;
+
+        const turn = cross(p1.tOut, p2.tIn);
+        const convex = turn * orientation > 0;
+        if (convex === distance > 0) {
+            // The pieces pull apart: round the corner
+            joins[k] = dist(p1.b, p2.a) < MIN_ARC_CHORD
+                ? { type: 'LINE', x: p2.a.x, y: p2.a.y }
+                : { type: 'ARC', x: p2.a.x, y: p2.a.y, i: p1.corner.x - p1.b.x, j: p1.corner.y - p1.b.y, clockwise: turn < 0 };
+        } else {
+            // The pieces overlap: trim both to where they cross
+            const mid = { x: (p1.b.x + p2.a.x) / 2, y: (p1.b.y + p2.a.y) / 2 };
+            const hits = intersectPieces(p1, p2);
+            if (hits.length === 0) return null;
+            const hit = hits.reduce((best, p) => dist(p, mid) < dist(best, mid) ? p : best);
+            p1.b = hit;
+            p2.a = { ...hit };
+        }
+    }
+
+    const segments: ToolpathSegment[] = [];
+    for (let k = 0; k < pieces.length; k++) {
+        const p = pieces[k];
+        if (p.arc) {
+            const full = Math.abs(p.arc.sweep) > TWO_PI - EPS;
+            const clockwise = p.arc.sweep < 0;
+            if (!full) {
+                // Trimming may only shorten an arc, never wrap it past its other end
+                const sweep = normalizeSweep(
+                    Math.atan2(p.b.y - p.arc.cy, p.b.x - p.arc.cx) - Math.atan2(p.a.y - p.arc.cy, p.a.x - p.arc.cx),
+                    clockwise
+                );
+                if (Math.abs(sweep) > Math.abs(p.arc.sweep) + EPS) return null;
+            }
+            if (full || dist(p.a, p.b) >= MIN_ARC_CHORD) {
+                segments.push({ type: 'ARC', x: p.b.x, y: p.b.y, i: p.arc.cx - p.a.x, j: p.arc.cy - p.a.y, clockwise });
+            } else if (dist(p.a, p.b) > EPS) {
+                segments.push({ type: 'LINE', x: p.b.x, y: p.b.y });
+            }
+        } else {
+            if ((p.b.x - p.a.x) * p.tIn.x + (p.b.y - p.a.y) * p.tIn.y < -EPS) return null;
+            if (dist(p.a, p.b) > EPS) segments.push({ type: 'LINE', x: p.b.x, y: p.b.y });
+        }
+        const join = joins[k];
+        if (join) segments.push(join);
+    }
+
+    return { start: pieces[0].a, segments, closed: true };
+};
+
+// Offsets a closed contour by `distance` (positive grows it, negative shrinks it).
+// Arcs and corners are kept exact where possible; when the offset collapses
+// features or splits the contour, a polygon offset is used instead.
+export const offsetContour = (contour: Contour, distance: number): Contour[] => {
+    if (!contour.closed || Math.abs(distance) < EPS) return [contour];
+
+    const points = contourToPoints(contour, 0.01);
+    const area = polygonArea(points);
+    if (Math.abs(area) < EPS) return [];
+    const orientation = Math.sign(area);
+
+    const reference = clipperOffset(points, distance);
+    const exact = offsetWithArcs(contour, distance, orientation);
+    if (exact && reference.length === 1) {
+        const exactArea = Math.abs(polygonArea(contourToPoints(exact, 0.01)));
+        const referenceArea = Math.abs(polygonArea(reference[0]));
+        // A self-intersecting exact offset shows up as an area mismatch
+        if (Math.abs(exactArea - referenceArea) <= Math.max(0.02 * referenceArea, 0.01)) {
+            return [exact];
+        }
+    }
+    return reference.map(p => polygonToContour(p, orientation, contour.start));
+};
+
+// Applies tool radius compensation to the contours of one shape. Closed
+// contours nested inside an odd number of others are holes (like the inside
+// of an "O"), so "outside" moves them inwards. Open contours are left on the line.
+export const compensateContours = (contours: Contour[], profile: ProfileMode | undefined, toolDiameter: number): Contour[] => {
+    if (!profile || profile === ProfileMode.ON || toolDiameter <= 0) return contours;
+    const radius = toolDiameter / 2;
+
+    const polygons = contours.map(c => c.closed ? contourToPoints(c) : null);
+    return contours.flatMap((contour, index) => {
+        const points = polygons[index];
+        if (!points) return [contour];
+
+        const depth = polygons.filter((other, j) => other && j !== index && pointInPolygon(points[0], other)).length;
+        const isHole = depth % 2 === 1;
+        const outward = (profile === ProfileMode.OUTSIDE) !== isHole;
+        return offsetContour(contour, outward ? radius : -radius);
+    });
+};
+
+// Area enclosed by the closed contours of a shape. Contours nested inside an
+// odd number of others are islands, like the holes of "O" and "A".
+const contoursToRegion = (contours: Contour[]): ClipperLib.Paths =>
+    ClipperLib.Clipper.SimplifyPolygons(
+        contours.filter(c => c.closed).map(c => toClipperPath(contourToPoints(c, 0.01))),
+        ClipperLib.PolyFillType.pftEvenOdd
+    );
+
+const ringToContour = (path: ClipperLib.Path): Contour => {
+    const points = fromClipperPath(path);
+    return polygonToContour(points, Math.sign(polygonArea(points)), points[0]);
+};
+
+// Parts of the segment a-b lying inside the region
+const clipSegment = (a: Point, b: Point, region: ClipperLib.Paths): Point[][] => {
+    const clipper = new ClipperLib.Clipper();
+    clipper.AddPath(toClipperPath([a, b]), ClipperLib.PolyType.ptSubject, false);
+    clipper.AddPaths(region, ClipperLib.PolyType.ptClip, true);
+    const tree = new ClipperLib.PolyTree();
+    clipper.Execute(ClipperLib.ClipType.ctIntersection, tree, ClipperLib.PolyFillType.pftNonZero, ClipperLib.PolyFillType.pftNonZero);
+    return ClipperLib.Clipper.OpenPathsFromPolyTree(tree).map(fromClipperPath);
+};
+
+// Whether a straight move stays inside the region. Moves often run along the
+// walls, so they are tested against a slightly grown region; beyond that, no
+// more than LINK_TOLERANCE of the move may lie outside, or it could cut
+// through a small island or a thin wall.
+const LINK_TOLERANCE = 0.01;
+
+const insideTest = (region: ClipperLib.Paths) => {
+    const grown = offsetPaths(region, 0.02);
+    return (a: Point, b: Point) => {
+        const length = dist(a, b);
+        const inside = clipSegment(a, b, grown).reduce((sum, piece) => sum + dist(piece[0], piece[piece.length - 1]), 0);
+        return inside >= length - LINK_TOLERANCE;
+    };
+};
+
+// Path along a region boundary ring from a to b (both on the same ring), the
+// shorter way round. Returns the points after a, or null when there is no such
+// ring or the walk is longer than maxLength.
+const walkBoundary = (rings: Point[][], a: Point, b: Point, maxLength: number): Point[] | null => {
+    for (const ring of rings) {
+        const n = ring.length;
+        const cumulative = [0];
+        for (let i = 0; i < n; i++) cumulative.push(cumulative[i] + dist(ring[i], ring[(i + 1) % n]));
+        const perimeter = cumulative[n];
+
+        const locate = (p: Point) => {
+            for (let i = 0; i < n; i++) {
+                if (segmentDistance(p, ring[i], ring[(i + 1) % n]) < 0.01) return cumulative[i] + dist(ring[i], p);
+            }
+            return -1;
+        };
+        const sa = locate(a);
+        const sb = locate(b);
+        if (sa < 0 || sb < 0) continue;
+
+        const wrap = (v: number) => ((v % perimeter) + perimeter) % perimeter;
+        const forward = wrap(sb - sa);
+        const goForward = forward <= perimeter - forward;
+        const length = goForward ? forward : perimeter - forward;
+        if (length > maxLength) return null;
+
+        const along = ring
+            .map((p, i) => ({ p, d: goForward ? wrap(cumulative[i] - sa) : wrap(sa - cumulative[i]) }))
+            .filter(v => v.d > 0 && v.d < length)
+            .sort((u, v) => u.d - v.d)
+            .map(v => v.p);
+        return [...along, b];
+    }
+    return null;
+};
+
+// Horizontal back-and-forth passes over the region. Neighbouring rows are
+// joined into one chain while the step between them stays inside the region;
+// otherwise a new chain starts.
+const rasterFill = (region: ClipperLib.Paths, step: number): Contour[] => {
+    const bounds = ClipperLib.JS.BoundsOfPaths(region);
+    const top = bounds.top / CLIPPER_SCALE;
+    const height = (bounds.bottom - bounds.top) / CLIPPER_SCALE;
+    const left = bounds.left / CLIPPER_SCALE - 1;
+    const right = bounds.right / CLIPPER_SCALE + 1;
+
+    // Rows are spread evenly; the first and last sit on the walls, which the clean-up pass covers
+    const rowCount = Math.ceil(height / step);
+    const rows: Point[][][] = [];
+    for (let k = 1; k < rowCount; k++) {
+        const y = top + height * k / rowCount;
+        rows.push(clipSegment({ x: left, y }, { x: right, y }, region)
+            .filter(piece => piece.length >= 2)
+            .map(piece => piece[0].x < piece[piece.length - 1].x ? piece : [...piece].reverse())
+            .sort((a, b) => a[0].x - b[0].x));
+    }
+
+    const rings = region.map(fromClipperPath);
+    const linkInside = insideTest(region);
+
+    const used = rows.map(row => row.map(() => false));
+    const chains: Point[][] = [];
+    rows.forEach((row, r) => {
+        row.forEach((first, i) => {
+            if (used[r][i]) return;
+            used[r][i] = true;
+            const chain = [first[0], first[first.length - 1]];
+            let current = first;
+            let leftToRight = true;
+
+            for (let next = r + 1; next < rows.length; next++) {
+                const minX = current[0].x;
+                const maxX = current[current.length - 1].x;
+                const j = rows[next].findIndex((p, idx) => !used[next][idx] && p[0].x <= maxX && p[p.length - 1].x >= minX);
+                if (j < 0) break;
+
+                const candidate = rows[next][j];
+                const entry = leftToRight ? candidate[candidate.length - 1] : candidate[0];
+                const exit = leftToRight ? candidate[0] : candidate[candidate.length - 1];
+                const last = chain[chain.length - 1];
+                const link = linkInside(last, entry) ? [entry] : walkBoundary(rings, last, entry, step * 3);
+                if (!link) break;
+
+                used[next][j] = true;
+                chain.push(...link, exit);
+                current = candidate;
+                leftToRight = !leftToRight;
+            }
+            chains.push(chain);
+        });
+    });
+
+    return chains.map(chain => ({
+        start: chain[0],
+        segments: chain.slice(1).map(p => ({ type: 'LINE' as const, x: p.x, y: p.y })),
+        closed: false
+    }));
+};
+
+// Clears the area inside a shape's closed contours, leaving islands standing.
+// Offset pockets cut rings from the center outwards so the last ring
+// finishes the walls; zig-zag pockets finish with one ring around the walls.
+export const pocketContours = (contours: Contour[], toolDiameter: number, stepover: number, strategy: PocketStrategy = PocketStrategy.OFFSET): Contour[] => {
+    if (toolDiameter <= 0) return [];
+    const step = toolDiameter * Math.min(Math.max(stepover, 1), 100) / 100;
+
+    let region = offsetPaths(contoursToRegion(contours), -toolDiameter / 2);
+    if (region.length === 0) return [];
+
+    if (strategy === PocketStrategy.ZIGZAG) {
+        return [...rasterFill(region, step), ...region.map(ringToContour)];
+    }
+
+    const levels: ClipperLib.Paths[] = [];
+    while (region.length > 0) {
+        levels.push(region);
+        region = offsetPaths(region, -step);
+    }
+    return levels.reverse().flatMap(level => level.map(ringToContour));
+};
+
+// Tells whether the tool centre can feed straight from a to b without
+// leaving the pocket cut from `contours`
+export const pocketLinkTest = (contours: Contour[], toolDiameter: number): (a: Point, b: Point) => boolean =>
+    insideTest(offsetPaths(contoursToRegion(contours), -toolDiameter / 2));
+
+// Wraps a closed contour in tangential quarter-arc lead-in and lead-out moves
+// on the waste side: outside the shape's material for outside and on-line
+// profiles, inside it for inside profiles. The result is an open path.
+export const addLeads = (contour: Contour, radius: number, outline: Contour[], wasteInside: boolean): { contour: Contour, leadInLength: number } => {
+    if (!contour.closed || radius <= 0 || contour.segments.length === 0) return { contour, leadInLength: 0 };
+
+    const polygons = outline.filter(c => c.closed).map(c => contourToPoints(c));
+    const inMaterial = (p: Point) => polygons.filter(poly => pointInPolygon(p, poly)).length % 2 === 1;
+
+    const start = contour.start;
+    const t = segmentTangent(start, contour.segments[0], false);
+    const leftCenter = { x: start.x - t.y * radius, y: start.y + t.x * radius };
+    // +1 puts the leads on the left of the direction of travel, -1 on the right
+    const side = inMaterial(leftCenter) === wasteInside ? 1 : -1;
+    const clockwise = side < 0;
+
+    const inCenter = { x: start.x - t.y * radius * side, y: start.y + t.x * radius * side };
+    const leadStart = { x: inCenter.x - t.x * radius, y: inCenter.y - t.y * radius };
+    const leadIn: ToolpathSegment = { type: 'ARC', x: start.x, y: start.y, i: inCenter.x - leadStart.x, j: inCenter.y - leadStart.y, clockwise };
+
+    const n = contour.segments.length;
+    const end = contour.segments[n - 1];
+    const te = segmentTangent(n > 1 ? contour.segments[n - 2] : start, end, true);
+    const outCenter = { x: end.x - te.y * radius * side, y: end.y + te.x * radius * side };
+    const leadOut: ToolpathSegment = {
+        type: 'ARC', x: outCenter.x + te.x * radius, y: outCenter.y + te.y * radius,
+        i: outCenter.x - end.x, j: outCenter.y - end.y, clockwise
+    };
+
+    return {
+        contour: { start: leadStart, segments: [leadIn, ...contour.segments, leadOut], closed: false },
+        leadInLength: radius * Math.PI / 2
+    };
+};
+
+// Same closed contour starting `length` along it
+export const rotateContour = (contour: Contour, length: number): Contour => {
+    const total = contourLength(contour);
+    if (!contour.closed || length <= EPS || length >= total - EPS) return contour;
+    const [head, ...rest] = splitContour(contour, [length]);
+    const tail = rest.flatMap(piece => piece.contour.segments);
+    return { start: rest.length > 0 ? rest[0].contour.start : contour.start, segments: [...tail, ...head.contour.segments], closed: true };
+};
+
+// A unit of work for path ordering: contours cut back to back, for example
+// one profile contour or all the rings of a pocket.
+export interface PathJob {
+    contours: Contour[];
+    rotatable: boolean;  // Single closed contour whose start point may move
+    reversible: boolean; // Single open contour that may be cut from either end
+    passes: number;      // Depth passes; open contours end where they started after an even count
+}
+
+const contourExit = (contour: Contour, passes: number): Point => {
+    return contour.closed || passes % 2 === 0 ? contour.start : contourEnd(contour);
+};
+
+const jobEntry = (job: PathJob): Point => job.contours[0].start;
+export const jobExit = (job: PathJob): Point => contourExit(job.contours[job.contours.length - 1], job.passes);
+
+// XY travel from `from` through the jobs in order and back to `from`
+export const travelDistance = (jobs: PathJob[], from: Point): number => {
+    let total = 0;
+    let at = from;
+    for (const job of jobs) {
+        total += dist(at, jobEntry(job));
+        at = jobExit(job);
+    }
+    return total + dist(at, from);
+};
+
+// Where the job would start when approached from p. Closed contours prefer
+// a vertex, so the entry mark lands on a corner; single-segment contours
+// (circles) have none and start at the nearest point.
+const nearestEntry = (job: PathJob, p: Point): Point => {
+    const contour = job.contours[0];
+    if (job.rotatable) {
+        if (contour.segments.length === 1) return pointAtLength(contour, lengthAtPoint(contour, p));
+        return contour.segments.reduce<Point>((best, v) => dist(v, p) < dist(best, p) ? v : best, contour.start);
+    }
+    if (job.reversible && dist(contourEnd(contour), p) < dist(contour.start, p)) return contourEnd(contour);
+    return contour.start;
+};
+
+// Moves the job's start as close to p as its kind allows
+const orientJob = <T extends PathJob>(job: T, p: Point): T => {
+    const contour = job.contours[0];
+    const entry = nearestEntry(job, p);
+    if (job.rotatable) {
+        return { ...job, contours: [rotateContour(contour, lengthAtPoint(contour, entry))] };
+    }
+    if (entry !== contour.start) {
+        return { ...job, contours: [reverseContour(contour)] };
+    }
+    return job;
+};
+
+// For each job, the jobs lying inside it. Only single closed contours
+// enclose anything; a job is inside when its entry point is.
+const innerJobs = (jobs: PathJob[]): number[][] => {
+    const outlines = jobs.map(job => {
+        if (job.contours.length !== 1 || !job.contours[0].closed) return null;
+        const points = contourToPoints(job.contours[0], 0.1);
+        const xs = points.map(p => p.x);
+        const ys = points.map(p => p.y);
+        return {
+            points,
+            area: Math.abs(polygonArea(points)),
+            minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys)
+        };
+    });
+    const areaOf = (i: number) => outlines[i]?.area ?? 0;
+
+    return jobs.map((_, outer) => {
+        const o = outlines[outer];
+        if (!o) return [];
+        const inside: number[] = [];
+        jobs.forEach((job, inner) => {
+            if (inner === outer || areaOf(inner) >= o.area) return;
+            const p = jobEntry(job);
+            if (p.x < o.minX || p.x > o.maxX || p.y < o.minY || p.y > o.maxY) return;
+            if (pointInPolygon(p, o.points)) inside.push(inner);
+        });
+        return inside;
+    });
+};
+
+// Orders jobs to cut down rapid travel: nearest neighbour from `from`,
+// improved by 2-opt, never cutting a contour before the ones inside it (so
+// holes are cut while the part is still held). Closed contours start at the
+// vertex nearest the tool and open ones are entered from the nearer end.
+export const orderJobs = <T extends PathJob>(jobs: T[], from: Point): T[] => {
+    if (jobs.length < 2) return jobs.map(job => orientJob(job, from));
+    const inner = innerJobs(jobs);
+
+    // Nearest neighbour, respecting inner-before-outer
+    const done = jobs.map(() => false);
+    const route: T[] = [];
+    const routeIndex: number[] = [];
+    let at = from;
+    for (let n = 0; n < jobs.length; n++) {
+        let best = -1;
+        let bestDistance = Infinity;
+        jobs.forEach((job, i) => {
+            if (done[i] || inner[i].some(j => !done[j])) return;
+            const d = dist(at, nearestEntry(job, at));
+            if (d < bestDistance) {
+                best = i;
+                bestDistance = d;
+            }
+        });
+        if (best < 0) break;
+        const job = orientJob(jobs[best], at);
+        done[best] = true;
+        route.push(job);
+        routeIndex.push(best);
+        at = jobExit(job);
+    }
+
+    // 2-opt: reverse runs of the route while that shortens it. Jobs keep their own direction.
+    const outerOf: number[][] = jobs.map(() => []);
+    inner.forEach((list, outer) => list.forEach(i => outerOf[i].push(outer)));
+    const position = new Map<number, number>();
+    const exitAt = (k: number) => k < 0 ? from : jobExit(route[k]);
+    const entryAt = (k: number) => k >= route.length ? from : jobEntry(route[k]);
+
+    // forward[k]: travel k -> k+1 as routed; backward[k]: k+1 -> k once the run is reversed
+    const forward: number[] = [];
+    const backward: number[] = [];
+    const measure = () => {
+        forward.length = 0;
+        backward.length = 0;
+        forward.push(0);
+        backward.push(0);
+        for (let k = 0; k < route.length - 1; k++) {
+            forward.push(forward[k] + dist(jobExit(route[k]), jobEntry(route[k + 1])));
+            backward.push(backward[k] + dist(jobExit(route[k + 1]), jobEntry(route[k])));
+        }
+        routeIndex.forEach((jobIndex, k) => position.set(jobIndex, k));
+    };
+
+    for (let sweep = 0; sweep < 20 && route.length <= 1000; sweep++) {
+        let improved = false;
+        measure();
+        for (let i = 0; i < route.length - 1; i++) {
+            for (let k = i + 1; k < route.length; k++) {
+                const before = dist(exitAt(i - 1), entryAt(i)) + dist(exitAt(k), entryAt(k + 1)) + forward[k] - forward[i];
+                const after = dist(exitAt(i - 1), entryAt(k)) + dist(exitAt(i), entryAt(k + 1)) + backward[k] - backward[i];
+                if (after >= before - 1e-6) continue;
+
+                // Reversing must not put an outer contour ahead of one inside it
+                let valid = true;
+                for (let m = i; m <= k && valid; m++) {
+                    valid = outerOf[routeIndex[m]].every(outer => {
+                        const p = position.get(outer)!;
+                        return p < i || p > k;
+                    });
+                }
+                if (!valid) continue;
+
+                route.splice(i, k - i + 1, ...route.slice(i, k + 1).reverse());
+                routeIndex.splice(i, k - i + 1, ...routeIndex.slice(i, k + 1).reverse());
+                measure();
+                improved = true;
+            }
+        }
+        if (!improved) break;
+    }
+
+    // Start points were picked for the nearest-neighbour order; pick them again for the final one
+    at = from;
+    return route.map(job => {
+        const oriented = orientJob(job, at);
+        at = jobExit(oriented);
+        return oriented;
+    });
+};
+
+// Chord error allowed when turning font and SVG curves into lines and arcs
+export const CURVE_TOLERANCE = 0.01;
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// Halves a Bézier of any degree (de Casteljau)
+const splitBezier = (controls: Point[]): [Point[], Point[]] => {
+    const left: Point[] = [controls[0]];
+    const right: Point[] = [controls[controls.length - 1]];
+    let level = controls;
+    while (level.length > 1) {
+        level = level.slice(1).map((p, k) => lerp(level[k], p, 0.5));
+        left.push(level[0]);
+        right.unshift(level[level.length - 1]);
+    }
+    return [left, right];
+};
+
+const bezierPoint = (controls: Point[], t: number): Point => {
+    let level = controls;
+    while (level.length > 1) level = level.slice(1).map((p, k) => lerp(level[k], p, t));
+    return level[0];
+};
+
+// Furthest any control point strays from the chord; the curve stays within it
+const bezierFlatness = (controls: Point[]) => {
+    const a = controls[0];
+    const b = controls[controls.length - 1];
+    return Math.max(0, ...controls.slice(1, -1).map(p => segmentDistance(p, a, b)));
+};
+
+// Points along a quadratic or cubic Bézier (excluding its start), subdivided
+// until every chord is within tolerance of the curve
+export const flattenBezier = (controls: Point[], tolerance: number = CURVE_TOLERANCE, depth: number = 0): Point[] => {
+    if (depth >= 16 || bezierFlatness(controls) <= tolerance) return [controls[controls.length - 1]];
+    const [left, right] = splitBezier(controls);
+    return [...flattenBezier(left, tolerance, depth + 1), ...flattenBezier(right, tolerance, depth + 1)];
+};
+
+const unit = (v: Point): Point | null => {
+    const len = Math.hypot(v.x, v.y);
+    return len > EPS ? { x: v.x / len, y: v.y / len } : null;
+};
+
+// Arc from `from` to `to` leaving `from` along `tangent`, or a line when it is
+// (nearly) straight
+const tangentArc = (from: Point, tangent: Point, to: Point): ToolpathSegment => {
+    const normal = { x: -tangent.y, y: tangent.x };
+    const chord = { x: to.x - from.x, y: to.y - from.y };
+    const offset = normal.x * chord.x + normal.y * chord.y;
+    const s = (chord.x ** 2 + chord.y ** 2) / (2 * offset);
+    if (!isFinite(s) || Math.abs(s) > 1e5 || dist(from, to) < MIN_ARC_CHORD) return { type: 'LINE', x: to.x, y: to.y };
+    return { type: 'ARC', x: to.x, y: to.y, i: normal.x * s, j: normal.y * s, clockwise: s < 0 };
+};
+
+// Distance from p to a line or arc segment starting at `from`
+const pathDistance = (p: Point, from: Point, seg: ToolpathSegment) => {
+    if (seg.type !== 'ARC') return segmentDistance(p, from, seg);
+    const { cx, cy, r, a0, sweep } = arcGeometry(from, seg);
+    const along = normalizeSweep(Math.atan2(p.y - cy, p.x - cx) - a0, sweep < 0);
+    if (Math.abs(along) <= Math.abs(sweep)) return Math.abs(Math.hypot(p.x - cx, p.y - cy) - r);
+    return Math.min(dist(p, from), dist(p, seg));
+};
+
+// Two tangent-continuous arcs matching a cubic's end points and end tangents.
+// Both tangent arms get the same length d, chosen so the arms meet end to end.
+const cubicBiarc = (controls: Point[]): ToolpathSegment[] | null => {
+    const [p0, p1, p2, p3] = controls;
+    const t0 = unit({ x: p1.x - p0.x, y: p1.y - p0.y }) || unit({ x: p2.x - p0.x, y: p2.y - p0.y });
+    const t1 = unit({ x: p3.x - p2.x, y: p3.y - p2.y }) || unit({ x: p3.x - p1.x, y: p3.y - p1.y });
+    if (!t0 || !t1) return null;
+
+    const v = { x: p3.x - p0.x, y: p3.y - p0.y };
+    const t = { x: t0.x + t1.x, y: t0.y + t1.y };
+    // Each arc must turn less than half a circle
+    if (v.x * t0.x + v.y * t0.y <= 0 || v.x * t1.x + v.y * t1.y <= 0) return null;
+
+    const vt = v.x * t.x + v.y * t.y;
+    const vv = v.x * v.x + v.y * v.y;
+    const a = 2 * (t0.x * t1.x + t0.y * t1.y - 1);
+    const d = Math.abs(a) < EPS ? vv / (2 * vt) : (vt - Math.sqrt(vt * vt - a * vv)) / a;
+    if (!isFinite(d) || d <= 0) return null;
+
+    const q0 = { x: p0.x + d * t0.x, y: p0.y + d * t0.y };
+    const q1 = { x: p3.x - d * t1.x, y: p3.y - d * t1.y };
+    const joint = lerp(q0, q1, 0.5);
+    const first = tangentArc(p0, t0, joint);
+    // The second arc is found backwards from the end and then reversed
+    const back = tangentArc(p3, { x: -t1.x, y: -t1.y }, joint);
+    const second: ToolpathSegment = back.type === 'ARC'
+        ? { type: 'ARC', x: p3.x, y: p3.y, i: p3.x + back.i - joint.x, j: p3.y + back.j - joint.y, clockwise: !back.clockwise }
+        : { type: 'LINE', x: p3.x, y: p3.y };
+    return [first, second];
+};
+
+// Lines and G2/G3 arcs within tolerance of a quadratic or cubic Bézier
+// (excluding its start). Curves a biarc cannot follow closely enough are
+// halved until it can.
+export const bezierToSegments = (controls: Point[], tolerance: number = CURVE_TOLERANCE, depth: number = 0): ToolpathSegment[] => {
+    const end = controls[controls.length - 1];
+    if (bezierFlatness(controls) <= tolerance) return [{ type: 'LINE', x: end.x, y: end.y }];
+    if (depth >= 12) return flattenBezier(controls, tolerance).map(p => ({ type: 'LINE', x: p.x, y: p.y }));
+
+    // Raise quadratics to cubics: same curve, one more control point
+    const cubic = controls.length === 3
+        ? [controls[0], lerp(controls[0], controls[1], 2 / 3), lerp(controls[2], controls[1], 2 / 3), controls[2]]
+        : controls;
+    const biarc = cubicBiarc(cubic);
+    if (biarc) {
+        const joint = biarc[0];
+        const fits = [1, 2, 3, 4, 5, 6, 7].every(k => {
+            const p = bezierPoint(cubic, k / 8);
+            return Math.min(pathDistance(p, cubic[0], biarc[0]), pathDistance(p, joint, biarc[1])) <= tolerance;
+        });
+        if (fits) return biarc;
+    }
+    const [left, right] = splitBezier(cubic);
+    return [...bezierToSegments(left, tolerance, depth + 1), ...bezierToSegments(right, tolerance, depth + 1)];
+};
+
+// Cubic Béziers (control points after the start) along an elliptical arc
+// from parameter angle `start` through `sweep` radians, in pieces of at most
+// an eighth turn so each stays within 4e-6 r of the ellipse
+export const ellipseToBeziers = (center: Point, rx: number, ry: number, rotation: number, start: number, sweep: number): Point[][] => {
+    const cos = Math.cos(rotation), sin = Math.sin(rotation);
+    const point = (t: number): Point => ({
+        x: center.x + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+        y: center.y + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+    });
+    const derivative = (t: number): Point => ({
+        x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+        y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos
+    });
+
+    const pieces = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 4) - 1e-9));
+    const step = sweep / pieces;
+    const k = 4 / 3 * Math.tan(step / 4);
+    const cubics: Point[][] = [];
+    for (let i = 0; i < pieces; i++) {
+        const t0 = start + i * step;
+        const t1 = t0 + step;
+        const p0 = point(t0), p1 = point(t1);
+        const d0 = derivative(t0), d1 = derivative(t1);
+        cubics.push([
+            { x: p0.x + k * d0.x, y: p0.y + k * d0.y },
+            { x: p1.x - k * d1.x, y: p1.y - k * d1.y },
+            p1
+        ]);
+    }
+    return cubics;
+};
+
+// Affine transform [a b c d e f]: x' = a x + c y + e, y' = b x + d y + f
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+export const multiplyMatrix = (m: Matrix, n: Matrix): Matrix => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+export const applyMatrix = (m: Matrix, p: Point): Point => ({ x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] });
+
+// Average scale factor, for lengths such as radii and font sizes
+export const matrixScale = (m: Matrix) => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+
+export const isAxisAligned = (m: Matrix) => Math.abs(m[1]) < 1e-9 && Math.abs(m[2]) < 1e-9;
+
+// Rotation and uniform scale (optionally mirrored): circles stay circles
+export const isSimilarity = (m: Matrix) =>
+    Math.abs(Math.hypot(m[0], m[1]) - Math.hypot(m[2], m[3])) < 1e-9 && Math.abs(m[0] * m[2] + m[1] * m[3]) < 1e-9;
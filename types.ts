@@ -6,6 +6,8 @@ export enum ShapeType {
   HEART = 'HEART',
   LINE = 'LINE',
   POLYLINE = 'POLYLINE',
+  PATH = 'PATH',
+  IMAGE = 'IMAGE',
   GROUP = 'GROUP',
 }
 
@@ -33,12 +35,42 @@ export enum MirrorMode {
   CHAR = 'CHAR',   // Mirror individual characters in place
 }
 
+export enum ProfileMode {
+  ON = 'ON',           // Tool center follows the line
+  INSIDE = 'INSIDE',   // Tool stays inside closed shapes
+  OUTSIDE = 'OUTSIDE', // Tool stays outside closed shapes
+  POCKET = 'POCKET',   // Tool clears the whole interior of closed shapes
+}
+
+export enum PocketStrategy {
+  OFFSET = 'OFFSET',   // Contour-parallel rings from the center outwards
+  ZIGZAG = 'ZIGZAG',   // Back-and-forth raster, then a clean-up pass around the walls
+}
+
+export enum EntryMode {
+  PLUNGE = 'PLUNGE', // Straight down at the plunge rate
+  RAMP = 'RAMP',     // Zig-zag down along the start of the path
+  HELIX = 'HELIX',   // Spiral down along closed paths (circles, pocket rings); ramps on open paths
+}
+
+export interface TabSettings {
+  count: number;        // Tabs per closed contour, spaced evenly unless positions are set
+  width: number;        // Length of material left along the contour (mm)
+  height: number;       // Thickness left standing, measured up from the bottom of the cut (mm)
+  positions?: number[]; // Tab centers as fractions (0-1) of the toolpath length, set by dragging
+}
+
 export interface BaseShape {
   id: string;
   type: ShapeType;
   x: number;
   y: number;
   name?: string;
+  operation?: Operation; // Machining parameters; children of a group inherit the group's operation
+  profile?: ProfileMode; // Tool radius compensation for closed shapes, inherited like operation
+  pocketStrategy?: PocketStrategy; // How POCKET profiles clear the interior, inherited like operation
+  tabs?: TabSettings; // Holding tabs on closed profiles, inherited like operation
+  entry?: EntryMode; // How the tool descends into the material, inherited like operation
 }
 
 export interface RectangleShape extends BaseShape {
@@ -80,32 +112,177 @@ export interface PolylineShape extends BaseShape {
   points: { x: number, y: number }[];
 }
 
+// Imported outlines that keep their curves as arcs. Contours are relative to x, y.
+export interface PathShape extends BaseShape {
+  type: ShapeType.PATH;
+  contours: Contour[];
+}
+
+// How a bitmap is engraved line by line with a laser
+export interface RasterSettings {
+  lineInterval: number;   // Distance between scan lines, mm
+  overscan: number;       // Travel past each end of a line with the laser off, mm
+  bidirectional: boolean; // Engrave alternate lines right to left
+  minPower: number;       // S for the lightest engraved grey; black gets the operation's S
+}
+
+// Bitmap placed for raster engraving, top-left at x, y. Pixels are grey
+// levels (0 black, 255 white), row by row, base64 encoded.
+export interface ImageShape extends BaseShape {
+  type: ShapeType.IMAGE;
+  width: number;
+  height: number;
+  pixelWidth: number;
+  pixelHeight: number;
+  pixels: string;
+  raster: RasterSettings;
+}
+
 export interface GroupShape extends BaseShape {
   type: ShapeType.GROUP;
   children: Shape[];
   collapsed?: boolean;
 }
 
-export type Shape = RectangleShape | CircleShape | TextShape | HeartShape | LineShape | PolylineShape | GroupShape;
+export type Shape = RectangleShape | CircleShape | TextShape | HeartShape | LineShape | PolylineShape | PathShape | ImageShape | GroupShape;
 
 export interface MachineSettings {
-  feedRate: number;
+  feedRate: number;     // mm/min
+  plungeRate: number;   // mm/min
   safeHeight: number;
   cutDepth: number;
+  stepDown: number;        // Maximum depth per pass, 0 = single pass
+  finishPassDepth: number; // Depth of the final finishing pass, 0 = none
+  stepover: number;        // Distance between pocket passes, % of tool diameter
+  rampAngle: number;       // Descent angle of ramp and helix entries (degrees)
+  leadRadius: number;      // Tangential arc lead-in/out on closed profiles, 0 = none
+  spindleSpeed: number; // RPM
   toolDiameter: number;
 }
 
+export interface Operation {
+  name?: string;
+  settings: MachineSettings;
+  toolId?: string;   // Cutter from the tool library; settings hold its diameter and chosen feeds
+  material?: string; // Material whose library feeds and speeds were applied
+  laser?: boolean;   // Laser cut or engrave: M4 dynamic power at S = spindleSpeed, no Z moves
+}
+
+export enum ToolType {
+  FLAT = 'FLAT',             // Flat end mill
+  BALL = 'BALL',             // Ball nose end mill
+  VBIT = 'VBIT',             // V-bit, cuts wider the deeper it goes
+  DRAG_KNIFE = 'DRAG_KNIFE', // Trailing blade for vinyl and card, no spindle
+  LASER = 'LASER',           // Laser module, diameter is the beam width
+}
+
+export interface ToolFeeds {
+  feedRate: number;     // mm/min
+  plungeRate: number;   // mm/min
+  spindleSpeed: number; // RPM, or laser power (S value)
+}
+
+export interface CuttingTool {
+  id: string;
+  number: number; // T word used for tool changes
+  name: string;
+  type: ToolType;
+  diameter: number; // mm
+  flutes: number;
+  angle: number;    // Included angle of V-bits (degrees)
+  feeds: Record<string, ToolFeeds>; // Default feeds and speeds per material
+}
+
+export enum ToolChangeMode {
+  M6 = 'M6', // Automatic changer: T<n> M6
+  M0 = 'M0', // Manual: stop the spindle and pause until the operator resumes
+}
+
+export interface ToolLibrary {
+  tools: CuttingTool[];
+  toolChange: ToolChangeMode;
+}
+
+// Everything needed to pick up a design where it was left
+export interface ProjectData {
+  shapes: Shape[];
+  gcode: string;
+  isManualMode: boolean; // G-code was edited by hand and no longer follows the shapes
+  canvasSize: { width: number, height: number };
+  gridSize: number;
+  unit: Unit;
+}
+
+export interface ProjectSnapshot {
+  id: number;
+  savedAt: number; // ms since epoch
+  project: ProjectData;
+}
+
 export interface MachinePosition {
   x: string;
   y: string;
   z: string;
 }
 
+// Percentages set by the feed, rapid and spindle override commands
+export interface MachineOverrides {
+  feed: number;
+  rapid: number;
+  spindle: number;
+}
+
+export interface MachineAccessories {
+  spindle: 'CW' | 'CCW' | null;
+  flood: boolean;
+  mist: boolean;
+}
+
 export interface MachineStatus {
-  state: 'Idle' | 'Run' | 'Hold' | 'Alarm' | 'Door' | 'Check' | 'Home' | 'Sleep' | 'Disconnected' | 'Connecting';
-  pos: MachinePosition;
+  state: 'Idle' | 'Run' | 'Hold' | 'Jog' | 'Alarm' | 'Door' | 'Check' | 'Home' | 'Sleep' | 'Disconnected' | 'Connecting';
+  subState?: number;          // Reason code after the state, e.g. Hold:1 while still decelerating
+  pos: MachinePosition;       // Work position
+  machinePos?: MachinePosition;
+  wco?: MachinePosition;      // Work coordinate offset: machine position minus work position
   feed: string;
   spindle: string;
+  overrides?: MachineOverrides;
+  buffer?: { blocks: number, bytes: number }; // Free planner blocks and receive buffer bytes
+  pins?: string;              // Input pins triggered, e.g. 'XZP'
+  lineNumber?: number;        // N word of the block being executed
+  accessories?: MachineAccessories;
+  alarm?: number;             // Code of the alarm that locked the machine, while in Alarm
+  lastError?: { code: number, command?: string };
+}
+
+// A [PRB:x,y,z:success] report: where the probe triggered, machine coordinates
+export interface ProbeResult {
+  x: number;
+  y: number;
+  z: number;
+  success: boolean;
+}
+
+// How jobs are fed to GRBL
+export enum StreamingMode {
+  CHARACTER_COUNTING = 'CHARACTER_COUNTING', // Keep the 128-byte receive buffer full
+  SEND_RESPONSE = 'SEND_RESPONSE',           // One line at a time, waiting for each ok
+}
+
+// What a running job does when GRBL rejects one of its lines
+export enum ErrorPolicy {
+  PAUSE = 'PAUSE',       // Feed hold and ask whether to skip, retry or abort
+  STOP = 'STOP',         // Soft reset, ending the job
+  CONTINUE = 'CONTINUE', // Log it and keep streaming
+}
+
+// A job line GRBL answered with error:N
+export interface JobError {
+  lineIndex: number; // 0-based line in the job's G-code
+  text: string;      // The line as sent
+  code: number;
+  message: string;   // Decoded error
+  canRetry: boolean; // No later job line has reached GRBL yet
 }
 
 export interface GrblSetting {
@@ -113,3 +290,15 @@ export interface GrblSetting {
   value: string;
   description: string;
 }
+
+// Toolpath geometry. Each segment ends at (x, y); arcs carry their centre
+// as an I/J offset from the segment start, like G2/G3.
+export type ToolpathSegment =
+  | { type: 'LINE'; x: number; y: number }
+  | { type: 'ARC'; x: number; y: number; i: number; j: number; clockwise: boolean };
+
+export interface Contour {
+  start: { x: number, y: number };
+  segments: ToolpathSegment[];
+  closed: boolean;
+}
@@ -1,6 +1,7 @@
 
-import { Unit, Shape, ShapeType, RectangleShape, CircleShape, LineShape, PolylineShape, GroupShape } from './types';
-import { v4 as uuidv4 } from 'uuid';
+import { Unit, Shape, ShapeType, RectangleShape, CircleShape, LineShape, PolylineShape, PathShape, GroupShape, Contour } from './types';
+import { contourToSvgPath } from './services/toolpathService';
+import { interpretGCode, motionPoints } from './services/gcodeInterpreterService';
 
 export const toMm = (val: number, unit: Unit): number => {
   if (isNaN(val)) return 0;
@@ -31,6 +32,19 @@ export const flattenShapes = (shapes: Shape[]): Shape[] => {
     }, [] as Shape[]);
 };
 
+// Replaces the shape with the same id, wherever it sits in the group tree
+export const replaceShape = (shapes: Shape[], updated: Shape): Shape[] => {
+    return shapes.map(s => {
+        if (s.id === updated.id) return updated;
+        if (s.type === ShapeType.GROUP) {
+            const g = s as GroupShape;
+            const children = replaceShape(g.children, updated);
+            return children.some((c, i) => c !== g.children[i]) ? { ...g, children } : g;
+        }
+        return s;
+    });
+};
+
 export const shapesToSvg = (shapes: Shape[], width: number = 3050, height: number = 2150): string => {
   const processShape = (s: Shape): string => {
       switch(s.type) {
@@ -47,9 +61,12 @@ export const shapesToSvg = (shapes: Shape[], width: number = 3050, height: numbe
           const p = s as PolylineShape;
           const pts = p.points.map(pt => `${pt.x},${pt.y}`).join(' ');
           return `<polyline points="${pts}" fill="none" stroke="black" stroke-width="1" />`;
+        case ShapeType.PATH:
+          const path = s as PathShape;
+          return `<path d="${path.contours.map(contourToSvgPath).join(' ')}" transform="translate(${path.x} ${path.y})" fill="none" stroke="black" stroke-width="1" />`;
         case ShapeType.GROUP:
           const g = s as GroupShape;
-          return `<g>${g.children.map(processShape).join('')}</g>`;
+          return `<g transform="translate(${g.x} ${g.y})">${g.children.map(processShape).join('')}</g>`;
         default:
           return '';
       }
@@ -59,157 +76,140 @@ export const shapesToSvg = (shapes: Shape[], width: number = 3050, height: numbe
   return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" units="mm">\n${elements}\n</svg>`;
 };
 
-export const parseSvgToShapes = (svgString: string): Shape[] => {
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(svgString, 'image/svg+xml');
-  const shapes: Shape[] = [];
-
-  // Helper to parse basic attribs
-  const getNum = (el: Element, attr: string, def: number = 0) => {
-      const val = el.getAttribute(attr);
-      return val ? parseFloat(val) : def;
-  };
+// Layer names may not contain these characters in DXF
+const dxfLayerName = (name: string) => name.replace(/[<>/\\":;?*|=`]/g, '_').trim() || '0';
+
+// Writes shapes as an AutoCAD R12 DXF in millimetres. DXF's Y axis points up,
+// so the layout is flipped with the canvas' bottom-left corner at the origin.
+// Each top-level group becomes a layer; arcs are written as polyline bulges.
+export const shapesToDxf = (shapes: Shape[], height: number = 2150): string => {
+    const num = (v: number) => String(+v.toFixed(6));
+    const entities: string[] = [];
+    const layers = new Set<string>(['0']);
+
+    const vertex = (layer: string, x: number, y: number, bulge: number) =>
+        `0\nVERTEX\n8\n${layer}\n10\n${num(x)}\n20\n${num(height - y)}\n30\n0${bulge ? `\n42\n${num(bulge)}` : ''}`;
+
+    // Vertices with the bulge of the segment that leaves them
+    const polyline = (layer: string, vertices: { x: number, y: number, bulge: number }[], closed: boolean) => {
+        if (vertices.length < 2) return;
+        entities.push([
+            `0\nPOLYLINE\n8\n${layer}\n66\n1\n10\n0\n20\n0\n30\n0\n70\n${closed ? 1 : 0}`,
+            ...vertices.map(v => vertex(layer, v.x, v.y, v.bulge)),
+            `0\nSEQEND\n8\n${layer}`
+        ].join('\n'));
+    };
+
+    const contourVertices = (contour: Contour, dx: number, dy: number) => {
+        const vertices = [{ x: contour.start.x + dx, y: contour.start.y + dy, bulge: 0 }];
+        let from = contour.start;
+        contour.segments.forEach(seg => {
+            if (seg.type === 'ARC') {
+                const cx = from.x + seg.i, cy = from.y + seg.j;
+                const r = Math.hypot(seg.i, seg.j);
+                const a0 = Math.atan2(from.y - cy, from.x - cx);
+                const a1 = Math.atan2(seg.y - cy, seg.x - cx);
+                let sweep = (seg.clockwise ? a0 - a1 : a1 - a0) % (2 * Math.PI);
+                if (sweep <= 1e-9) sweep += 2 * Math.PI;
+                // A clockwise (G2) arc on the Y-down canvas runs counterclockwise once Y points up: a positive bulge.
+                // Arcs over half a turn are split so no bulge runs off to infinity.
+                const halves = sweep > Math.PI ? 2 : 1;
+                const bulge = Math.tan(sweep / halves / 4) * (seg.clockwise ? 1 : -1);
+                vertices[vertices.length - 1].bulge = bulge;
+                if (halves === 2) {
+                    const mid = a0 + (seg.clockwise ? -sweep : sweep) / 2;
+                    vertices.push({ x: cx + r * Math.cos(mid) + dx, y: cy + r * Math.sin(mid) + dy, bulge });
+                }
+            }
+            vertices.push({ x: seg.x + dx, y: seg.y + dy, bulge: 0 });
+            from = seg;
+        });
+        // A closed polyline returns to its first vertex by itself
+        if (contour.closed && vertices.length > 1 && vertices[vertices.length - 1].bulge === 0) {
+            const last = vertices[vertices.length - 1];
+            if (Math.hypot(last.x - vertices[0].x, last.y - vertices[0].y) < 1e-9) vertices.pop();
+        }
+        return vertices;
+    };
+
+    const processShape = (s: Shape, dx: number, dy: number, layer: string) => {
+        switch (s.type) {
+            case ShapeType.RECTANGLE: {
+                const r = s as RectangleShape;
+                const x = r.x + dx, y = r.y + dy;
+                const rad = Math.min(r.cornerRadius || 0, r.width / 2, r.height / 2);
+                if (rad <= 0) {
+                    polyline(layer, [{ x, y }, { x: x + r.width, y }, { x: x + r.width, y: y + r.height }, { x, y: y + r.height }].map(p => ({ ...p, bulge: 0 })), true);
+                    break;
+                }
+                // The outline runs clockwise as drawn, so each quarter-turn corner is a bulge of -tan(22.5°)
+                const b = -Math.tan(Math.PI / 8);
+                polyline(layer, [
+                    { x: x + rad, y, bulge: 0 }, { x: x + r.width - rad, y, bulge: b },
+                    { x: x + r.width, y: y + rad, bulge: 0 }, { x: x + r.width, y: y + r.height - rad, bulge: b },
+                    { x: x + r.width - rad, y: y + r.height, bulge: 0 }, { x: x + rad, y: y + r.height, bulge: b },
+                    { x, y: y + r.height - rad, bulge: 0 }, { x, y: y + rad, bulge: b }
+                ], true);
+                break;
+            }
+            case ShapeType.CIRCLE: {
+                const c = s as CircleShape;
+                entities.push(`0\nCIRCLE\n8\n${layer}\n10\n${num(c.x + dx)}\n20\n${num(height - c.y - dy)}\n30\n0\n40\n${num(c.radius)}`);
+                break;
+            }
+            case ShapeType.LINE: {
+                const l = s as LineShape;
+                entities.push(`0\nLINE\n8\n${layer}\n10\n${num(l.x + dx)}\n20\n${num(height - l.y - dy)}\n30\n0\n11\n${num(l.x2 + dx)}\n21\n${num(height - l.y2 - dy)}\n31\n0`);
+                break;
+            }
+            case ShapeType.POLYLINE: {
+                // Polyline points are stored on the canvas as they are drawn, without the shape's offset
+                const p = s as PolylineShape;
+                polyline(layer, p.points.map(pt => ({ x: pt.x + dx, y: pt.y + dy, bulge: 0 })), false);
+                break;
+            }
+            case ShapeType.PATH: {
+                const path = s as PathShape;
+                path.contours.forEach(c => polyline(layer, contourVertices(c, path.x + dx, path.y + dy), c.closed));
+                break;
+            }
+            case ShapeType.GROUP: {
+                const g = s as GroupShape;
+                g.children.forEach(child => processShape(child, dx + g.x, dy + g.y, layer));
+                break;
+            }
+        }
+    };
 
-  // 1. Rects
-  const rects = doc.getElementsByTagName('rect');
-  for(let i=0; i<rects.length; i++) {
-    const r = rects[i];
-    shapes.push({
-      id: uuidv4(),
-      type: ShapeType.RECTANGLE,
-      x: getNum(r, 'x'),
-      y: getNum(r, 'y'),
-      width: getNum(r, 'width', 10),
-      height: getNum(r, 'height', 10),
-      cornerRadius: getNum(r, 'rx'),
-    } as RectangleShape);
-  }
-
-  // 2. Circles
-  const circles = doc.getElementsByTagName('circle');
-  for(let i=0; i<circles.length; i++) {
-    const c = circles[i];
-    shapes.push({
-      id: uuidv4(),
-      type: ShapeType.CIRCLE,
-      x: getNum(c, 'cx'),
-      y: getNum(c, 'cy'),
-      radius: getNum(c, 'r', 10),
-    } as CircleShape);
-  }
-
-  // 3. Lines
-  const lines = doc.getElementsByTagName('line');
-  for(let i=0; i<lines.length; i++) {
-    const l = lines[i];
-    shapes.push({
-      id: uuidv4(),
-      type: ShapeType.LINE,
-      x: getNum(l, 'x1'),
-      y: getNum(l, 'y1'),
-      x2: getNum(l, 'x2'),
-      y2: getNum(l, 'y2'),
-    } as LineShape);
-  }
-
-  // 4. Polylines
-  const polylines = doc.getElementsByTagName('polyline');
-  for (let i = 0; i < polylines.length; i++) {
-      const pl = polylines[i];
-      const pointsStr = pl.getAttribute('points');
-      if (pointsStr) {
-          const points = pointsStr.trim().split(/\s+|,/).reduce((acc, val, idx, arr) => {
-              if (idx % 2 === 0 && arr[idx + 1] !== undefined) {
-                  acc.push({ x: parseFloat(val), y: parseFloat(arr[idx + 1]) });
-              }
-              return acc;
-          }, [] as {x: number, y: number}[]);
-          
-          if (points.length > 0) {
-              shapes.push({
-                  id: uuidv4(),
-                  type: ShapeType.POLYLINE,
-                  x: 0, y: 0, 
-                  points
-              } as PolylineShape);
-          }
-      }
-  }
-
-  // 5. Paths (Sampling)
-  const paths = doc.getElementsByTagName('path');
-  if (paths.length > 0) {
-      // We need to attach to DOM to use getPointAtLength
-      const hiddenDiv = document.createElement('div');
-      hiddenDiv.style.visibility = 'hidden';
-      hiddenDiv.style.position = 'absolute';
-      hiddenDiv.style.width = '0';
-      hiddenDiv.style.height = '0';
-      document.body.appendChild(hiddenDiv);
-
-      const svgNs = "http://www.w3.org/2000/svg";
-      const tempSvg = document.createElementNS(svgNs, 'svg');
-      hiddenDiv.appendChild(tempSvg);
-
-      for(let i=0; i<paths.length; i++) {
-          const pathEl = paths[i];
-          const d = pathEl.getAttribute('d');
-          if (!d) continue;
-
-          const tempPath = document.createElementNS(svgNs, 'path');
-          tempPath.setAttribute('d', d);
-          tempSvg.appendChild(tempPath);
-
-          try {
-              const len = tempPath.getTotalLength();
-              // Sample every 1mm or so (approx)
-              const points: {x: number, y: number}[] = [];
-              const steps = Math.max(10, Math.ceil(len / 1)); 
-              
-              for(let j=0; j<=steps; j++) {
-                  const pt = tempPath.getPointAtLength((j/steps) * len);
-                  points.push({ x: pt.x, y: pt.y });
-              }
-
-              if (points.length > 1) {
-                  shapes.push({
-                      id: uuidv4(),
-                      type: ShapeType.POLYLINE,
-                      x: 0, y: 0,
-                      points
-                  } as PolylineShape);
-              }
-          } catch(e) {
-              console.warn("Failed to parse path", e);
-          }
-          tempSvg.removeChild(tempPath);
-      }
-      document.body.removeChild(hiddenDiv);
-  }
+    shapes.forEach((s, index) => {
+        const layer = s.type === ShapeType.GROUP ? dxfLayerName(s.name || `Group ${index + 1}`) : '0';
+        layers.add(layer);
+        processShape(s, 0, 0, layer);
+    });
 
-  return shapes;
+    const layerTable = [...layers].map(name => `0\nLAYER\n2\n${name}\n70\n0\n62\n7\n6\nCONTINUOUS`);
+    return [
+        '0\nSECTION\n2\nHEADER\n9\n$ACADVER\n1\nAC1009\n9\n$INSUNITS\n70\n4\n0\nENDSEC',
+        `0\nSECTION\n2\nTABLES\n0\nTABLE\n2\nLAYER\n70\n${layers.size}`,
+        ...layerTable,
+        '0\nENDTAB\n0\nENDSEC',
+        '0\nSECTION\n2\nENTITIES',
+        ...entities,
+        '0\nENDSEC\n0\nEOF\n'
+    ].join('\n');
 };
 
 export const calculateGCodeBounds = (gcode: string) => {
     let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
     let hasData = false;
-    
-    const lines = gcode.split('\n');
-    lines.forEach(line => {
-        const clean = line.trim().toUpperCase();
-        if (clean.startsWith('G0') || clean.startsWith('G1') || clean.startsWith('G2') || clean.startsWith('G3')) {
-             const xMatch = clean.match(/X([\d\.-]+)/);
-             const yMatch = clean.match(/Y([\d\.-]+)/);
-             
-             if (xMatch) {
-                 const x = parseFloat(xMatch[1]);
-                 if (!isNaN(x)) { minX = Math.min(minX, x); maxX = Math.max(maxX, x); hasData = true; }
-             }
-             if (yMatch) {
-                 const y = parseFloat(yMatch[1]);
-                 if (!isNaN(y)) { minY = Math.min(minY, y); maxY = Math.max(maxY, y); hasData = true; }
-             }
-        }
+
+    interpretGCode(gcode).motions.forEach(motion => {
+        if (motion.type === 'dwell') return;
+        motionPoints(motion, 1).forEach(p => {
+            minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+            minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+            hasData = true;
+        });
     });
 
     if (!hasData) return undefined;